@@ -0,0 +1,294 @@
+/**
+ * Signing Agent (Node.js only)
+ * Long-running process that holds one identity's key and signs documents
+ * for client processes over a Unix domain socket, like ssh-agent.
+ *
+ * The socket is created mode 0600, so file permissions decide who may
+ * connect. A configured client gets its policy only by presenting its token
+ * in 'hello'; other names get the default policy and only label the log. Every signature is appended to the
+ * signature log.
+ */
+
+import { appendFileSync, existsSync, lstatSync, rmSync } from 'node:fs';
+import { createServer, Server, Socket } from 'node:net';
+
+import { LocalSigner } from '../identity/signer.js';
+import { Keystore } from '../identity/keystore.js';
+import { CanonicalJSON } from '../document/canonical.js';
+import { AgentRequest, AgentResult, onLines, writeLine } from './protocol.js';
+import { fromBase64URL, toHex } from '../utils/encoding.js';
+import { constantTimeStringEqual } from '../utils/zeroize.js';
+import { KeystoreFile, NewZoneCoreError } from '../types.js';
+import { ERROR_CODES } from '../constants.js';
+
+// Document types a client may have signed
+export interface AgentClientPolicy {
+  allow?: string[];   // Signed without confirmation
+  confirm?: string[]; // Signed only if AgentOptions.confirm approves
+}
+
+// Policy bound to a secret the client presents in 'hello'
+export interface AgentClient extends AgentClientPolicy {
+  token: string;
+}
+
+export interface AgentPolicy {
+  clients?: Record<string, AgentClient>;
+  default?: AgentClientPolicy; // Clients that present no token
+}
+
+export interface AgentSignRequest {
+  client: string;
+  type: string;
+  chainId: string;
+  documentId: string;
+  logicalTime: number;
+}
+
+export interface AgentLogEntry extends AgentSignRequest {
+  signature: string;
+  confirmed: boolean;
+  at: string; // Wall-clock time, for audit only
+}
+
+export interface AgentOptions {
+  policy: AgentPolicy;
+  confirm?: (request: AgentSignRequest) => boolean | Promise<boolean>;
+  logFile?: string; // Signature log as JSON lines
+}
+
+const MAX_CLIENT_NAME = 64;
+
+type AgentSession = {
+  client: string | null;
+  policy: AgentClientPolicy;
+};
+
+export class SigningAgent {
+  readonly #signer: LocalSigner;
+  readonly #options: AgentOptions;
+  readonly #log: AgentLogEntry[] = [];
+  readonly #sockets = new Set<Socket>();
+  #server: Server | null = null;
+  #path: string | null = null;
+
+  constructor(signer: LocalSigner, options: AgentOptions) {
+    this.#signer = signer;
+    this.#options = options;
+  }
+
+  /**
+   * Unlock identity from keystore once for the agent's lifetime
+   */
+  static async fromKeystore(
+    file: KeystoreFile | string,
+    password: string | Uint8Array,
+    options: AgentOptions
+  ): Promise<SigningAgent> {
+    const mnemonic = await Keystore.decrypt(Keystore.parse(file), password);
+    return new SigningAgent(await LocalSigner.fromMnemonic(mnemonic), options);
+  }
+
+  /**
+   * Signatures made so far
+   */
+  get signatures(): readonly AgentLogEntry[] {
+    return this.#log;
+  }
+
+  /**
+   * Listen on a Unix socket path (a stale socket file is replaced)
+   * The socket is created mode 0600; it is never reachable with looser permissions
+   */
+  async listen(path: string): Promise<void> {
+    if (this.#server) {
+      throw new NewZoneCoreError(ERROR_CODES.VALIDATION_FAILED, 'Agent is already listening');
+    }
+    if (existsSync(path)) {
+      if (!lstatSync(path).isSocket()) {
+        throw new NewZoneCoreError(
+          ERROR_CODES.VALIDATION_FAILED,
+          'Agent path exists and is not a socket',
+          { path }
+        );
+      }
+      rmSync(path);
+    }
+
+    const server = createServer(socket => this.#accept(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+
+      // The socket file is bound synchronously inside listen()
+      const umask = process.umask(0o177);
+      try {
+        server.listen(path, () => {
+          server.off('error', reject);
+          resolve();
+        });
+      } finally {
+        process.umask(umask);
+      }
+    });
+
+    this.#server = server;
+    this.#path = path;
+  }
+
+  /**
+   * Stop listening, drop clients and zeroize the key
+   */
+  async close(): Promise<void> {
+    for (const socket of this.#sockets) {
+      socket.destroy();
+    }
+
+    const server = this.#server;
+    this.#server = null;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+    if (this.#path && existsSync(this.#path)) {
+      rmSync(this.#path);
+    }
+
+    this.#signer.destroy();
+  }
+
+  #accept(socket: Socket): void {
+    this.#sockets.add(socket);
+    socket.on('close', () => this.#sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+
+    const session: AgentSession = { client: null, policy: {} };
+
+    onLines(socket, line => {
+      let request: AgentRequest;
+      try {
+        request = JSON.parse(line) as AgentRequest;
+      } catch {
+        socket.destroy();
+        return;
+      }
+
+      const id = typeof request?.id === 'number' ? request.id : 0;
+
+      this.#handle(request, session)
+        .then(result => writeLine(socket, { id, ok: true, ...result }))
+        .catch((e: unknown) => {
+          const error = e instanceof NewZoneCoreError
+            ? e
+            : new NewZoneCoreError(ERROR_CODES.VALIDATION_FAILED, 'Agent request failed');
+          writeLine(socket, { id, ok: false, code: error.code, error: error.message });
+        });
+    });
+  }
+
+  async #handle(
+    request: AgentRequest,
+    session: AgentSession
+  ): Promise<Omit<AgentResult, 'id' | 'ok'>> {
+    if (request.op === 'hello') {
+      if (typeof request.client !== 'string' || request.client.length === 0 || request.client.length > MAX_CLIENT_NAME) {
+        throw new NewZoneCoreError(ERROR_CODES.VALIDATION_FAILED, 'Invalid client name');
+      }
+      session.policy = this.#policyFor(request.client, request.token);
+      session.client = request.client;
+      return { public_key: toHex(this.#signer.getPublicKey()) };
+    }
+
+    if (request.op === 'sign') {
+      if (session.client === null) {
+        throw new NewZoneCoreError(ERROR_CODES.AGENT_DENIED, 'Client must say hello before signing');
+      }
+      return { signature: toHex(await this.#sign(session.client, session.policy, request.message)) };
+    }
+
+    throw new NewZoneCoreError(ERROR_CODES.VALIDATION_FAILED, 'Unknown agent operation');
+  }
+
+  /**
+   * Policy of a configured client whose token matches; unconfigured names
+   * without a token get the default policy
+   * @throws NewZoneCoreError AGENT_DENIED if the token is missing, wrong or unexpected
+   */
+  #policyFor(client: string, token: unknown): AgentClientPolicy {
+    const clients = this.#options.policy.clients ?? {};
+    const entry = Object.prototype.hasOwnProperty.call(clients, client) ? clients[client] : undefined;
+
+    if (!entry && token === undefined) {
+      return this.#options.policy.default ?? {};
+    }
+
+    if (!entry || typeof token !== 'string' || !constantTimeStringEqual(token, entry.token)) {
+      throw new NewZoneCoreError(ERROR_CODES.AGENT_DENIED, `Client '${client}' did not present its token`);
+    }
+
+    return entry;
+  }
+
+  async #sign(client: string, policy: AgentClientPolicy, encoded: unknown): Promise<Uint8Array> {
+    const message = typeof encoded === 'string' ? fromBase64URL(encoded) : new Uint8Array(0);
+    const request = { client, ...SigningAgent.describe(message) };
+
+    let confirmed = false;
+
+    if (!policy.allow?.includes(request.type)) {
+      confirmed = !!policy.confirm?.includes(request.type) &&
+        !!this.#options.confirm &&
+        await this.#options.confirm(request);
+
+      if (!confirmed) {
+        throw new NewZoneCoreError(
+          ERROR_CODES.AGENT_DENIED,
+          `Client '${client}' may not sign '${request.type}' documents`
+        );
+      }
+    }
+
+    const signature = await this.#signer.sign(message);
+
+    const entry: AgentLogEntry = {
+      ...request,
+      signature: toHex(signature),
+      confirmed,
+      at: new Date().toISOString()
+    };
+    this.#log.push(entry);
+    if (this.#options.logFile) {
+      appendFileSync(this.#options.logFile, JSON.stringify(entry) + '\n');
+    }
+
+    return signature;
+  }
+
+  /**
+   * Read what is being signed; only canonical unsigned documents are accepted
+   */
+  private static describe(message: Uint8Array): Omit<AgentSignRequest, 'client'> {
+    let doc: Record<string, unknown>;
+    try {
+      doc = CanonicalJSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(message)) as Record<string, unknown>;
+    } catch (e) {
+      throw new NewZoneCoreError(ERROR_CODES.NON_CANONICAL_JSON, 'Agent signs canonical documents only', { error: e });
+    }
+
+    if (
+      typeof doc !== 'object' || doc === null || Array.isArray(doc) ||
+      typeof doc['type'] !== 'string' ||
+      typeof doc['chain_id'] !== 'string' ||
+      typeof doc['id'] !== 'string' ||
+      typeof doc['logical_time'] !== 'number' ||
+      'signature' in doc
+    ) {
+      throw new NewZoneCoreError(ERROR_CODES.VALIDATION_FAILED, 'Message is not an unsigned document');
+    }
+
+    return {
+      type: doc['type'],
+      chainId: doc['chain_id'],
+      documentId: doc['id'],
+      logicalTime: doc['logical_time']
+    };
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Signing Agent client (Node.js only)
+ * A Signer backed by a SigningAgent, for NewZoneCore.fromSigner()
+ */
+
+import { createConnection, Socket } from 'node:net';
+
+import { AgentCommand, AgentResponse, AgentResult, onLines, writeLine } from './protocol.js';
+import { fromHex, toBase64URL } from '../utils/encoding.js';
+import { NewZoneCoreError, Signer } from '../types.js';
+import { ERROR_CODES } from '../constants.js';
+
+type Pending = {
+  resolve: (response: AgentResult) => void;
+  reject: (error: NewZoneCoreError) => void;
+};
+
+export class AgentSigner implements Signer {
+  readonly #socket: Socket;
+  readonly #pending = new Map<number, Pending>();
+  #publicKey: Uint8Array = new Uint8Array(0);
+  #nextId = 1;
+
+  private constructor(socket: Socket) {
+    this.#socket = socket;
+
+    onLines(socket, line => this.#receive(line));
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => this.#failAll('Signing agent connection closed'));
+  }
+
+  /**
+   * Connect to an agent socket as the named client
+   * A configured client must pass the token the agent's policy lists for it
+   * @throws NewZoneCoreError AGENT_UNAVAILABLE if the agent cannot be reached,
+   *   AGENT_DENIED if the token does not match
+   */
+  static async connect(path: string, client: string, token?: string): Promise<AgentSigner> {
+    const socket = createConnection(path);
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once('connect', resolve);
+      socket.once('error', e => reject(new NewZoneCoreError(
+        ERROR_CODES.AGENT_UNAVAILABLE,
+        'Cannot connect to signing agent',
+        { path, error: e }
+      )));
+    });
+
+    const signer = new AgentSigner(socket);
+    try {
+      const hello = await signer.#request({ op: 'hello', client, token });
+      signer.#publicKey = fromHex(hello.public_key ?? '');
+    } catch (e) {
+      signer.close();
+      throw e;
+    }
+
+    return signer;
+  }
+
+  getPublicKey(): Uint8Array {
+    return this.#publicKey.slice();
+  }
+
+  /**
+   * Ask the agent to sign; subject to the agent's policy
+   * @throws NewZoneCoreError AGENT_DENIED if the policy refuses
+   */
+  async sign(message: Uint8Array): Promise<Uint8Array> {
+    const response = await this.#request({ op: 'sign', message: toBase64URL(message) });
+    return fromHex(response.signature ?? '');
+  }
+
+  /**
+   * Close the connection
+   */
+  close(): void {
+    this.#socket.end();
+    this.#socket.destroy();
+  }
+
+  #request(command: AgentCommand): Promise<AgentResult> {
+    if (this.#socket.destroyed) {
+      return Promise.reject(new NewZoneCoreError(
+        ERROR_CODES.AGENT_UNAVAILABLE,
+        'Signing agent connection closed'
+      ));
+    }
+
+    const id = this.#nextId++;
+    return new Promise((resolve, reject) => {
+      this.#pending.set(id, { resolve, reject });
+      writeLine(this.#socket, { ...command, id });
+    });
+  }
+
+  #receive(line: string): void {
+    let response: AgentResponse;
+    try {
+      response = JSON.parse(line) as AgentResponse;
+    } catch {
+      this.#socket.destroy();
+      return;
+    }
+
+    const pending = this.#pending.get(response.id);
+    if (!pending) return;
+    this.#pending.delete(response.id);
+
+    if ('error' in response) {
+      pending.reject(new NewZoneCoreError(response.code, response.error));
+    } else {
+      pending.resolve(response);
+    }
+  }
+
+  #failAll(message: string): void {
+    for (const pending of this.#pending.values()) {
+      pending.reject(new NewZoneCoreError(ERROR_CODES.AGENT_UNAVAILABLE, message));
+    }
+    this.#pending.clear();
+  }
+}
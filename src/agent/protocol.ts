@@ -0,0 +1,61 @@
+/**
+ * Signing agent wire protocol (Node.js only)
+ * Newline-delimited JSON over a Unix domain socket:
+ *
+ *   → { id, op: 'hello', client, token? } ← { id, ok: true, public_key }
+ *   → { id, op: 'sign', message }        ← { id, ok: true, signature }
+ *                                         ← { id, ok: false, code, error }
+ *
+ * message is the base64url canonical document without its signature.
+ */
+
+import type { Socket } from 'node:net';
+
+// Longest accepted line; longer input closes the connection
+export const AGENT_MAX_LINE = 1024 * 1024;
+
+export type AgentCommand =
+  | { op: 'hello'; client: string; token?: string }
+  | { op: 'sign'; message: string };
+
+export type AgentRequest = AgentCommand & { id: number };
+
+export type AgentResult = { id: number; ok: true; public_key?: string; signature?: string };
+
+export type AgentResponse =
+  | AgentResult
+  | { id: number; ok: false; code: string; error: string };
+
+/**
+ * Call handler for every complete line received on the socket
+ */
+export function onLines(socket: Socket, handler: (line: string) => void): void {
+  let buffer = '';
+  socket.setEncoding('utf8');
+
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 1);
+      if (line.length > 0) {
+        handler(line);
+      }
+    }
+
+    if (buffer.length > AGENT_MAX_LINE) {
+      socket.destroy();
+    }
+  });
+}
+
+/**
+ * Write one message as a line
+ */
+export function writeLine(socket: Socket, message: AgentRequest | AgentResponse): void {
+  if (!socket.destroyed) {
+    socket.write(JSON.stringify(message) + '\n');
+  }
+}
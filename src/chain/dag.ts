@@ -0,0 +1,170 @@
+/**
+ * Document DAG
+ * A document names its parents in parent_hashes (merges) or parent_hash.
+ * Every replica reads the DAG in the same topological order.
+ */
+
+import { Document, NewZoneCoreError } from '../types.js';
+import { ERROR_CODES } from '../constants.js';
+
+export const GENESIS_PARENT = '0'.repeat(64);
+
+export class ChainDag {
+  /**
+   * Ordered parents of a document; parent_hash comes first
+   */
+  static parents(document: Document): string[] {
+    return Array.isArray(document.parent_hashes) ? [...document.parent_hashes] : [document.parent_hash];
+  }
+
+  /**
+   * Documents no other document names as a parent, in linearization order
+   */
+  static heads(documents: Document[]): string[] {
+    const referenced = new Set(documents.flatMap(doc => this.parents(doc)));
+
+    return documents
+      .filter(doc => !referenced.has(doc.id))
+      .sort(this.#compare)
+      .map(doc => doc.id);
+  }
+
+  /**
+   * Heads descending from a document (the document itself if it has no children)
+   */
+  static headsFrom(documents: Document[], id: string): string[] {
+    const children = new Map<string, string[]>();
+    for (const doc of documents) {
+      for (const hash of this.parents(doc)) {
+        children.set(hash, [...(children.get(hash) ?? []), doc.id]);
+      }
+    }
+
+    const reached = new Set<string>();
+    const stack = [id];
+    for (let current = stack.pop(); current !== undefined; current = stack.pop()) {
+      if (!reached.has(current)) {
+        reached.add(current);
+        stack.push(...(children.get(current) ?? []));
+      }
+    }
+
+    return this.heads(documents).filter(head => reached.has(head));
+  }
+
+  /**
+   * Deterministic topological order
+   * Parents before children; ties by logical time, then document ID
+   * @throws NewZoneCoreError ORPHAN_PARENT, LOGICAL_TIME_VIOLATION or DUPLICATE_DOCUMENT
+   */
+  static linearize(documents: Document[]): Document[] {
+    const byId = new Map<string, Document>();
+    for (const doc of documents) {
+      if (byId.has(doc.id)) {
+        throw new NewZoneCoreError(
+          ERROR_CODES.DUPLICATE_DOCUMENT,
+          'Document appears twice',
+          { id: doc.id }
+        );
+      }
+      byId.set(doc.id, doc);
+    }
+
+    const pending = new Map<string, number>();
+    const children = new Map<string, Document[]>();
+    const ready: Document[] = [];
+
+    for (const doc of documents) {
+      const parents = this.parents(doc).filter(hash => hash !== GENESIS_PARENT);
+
+      for (const hash of parents) {
+        const parent = byId.get(hash);
+
+        if (!parent) {
+          throw new NewZoneCoreError(
+            ERROR_CODES.ORPHAN_PARENT,
+            `Parent ${hash} is not in the DAG`,
+            { id: doc.id }
+          );
+        }
+
+        // Also rules out cycles
+        if (!(doc.logical_time > parent.logical_time)) {
+          throw new NewZoneCoreError(
+            ERROR_CODES.LOGICAL_TIME_VIOLATION,
+            `logical_time ${doc.logical_time} <= parent logical_time ${parent.logical_time}`,
+            { id: doc.id }
+          );
+        }
+
+        children.set(hash, [...(children.get(hash) ?? []), doc]);
+      }
+
+      pending.set(doc.id, parents.length);
+      if (parents.length === 0) {
+        ready.push(doc);
+      }
+    }
+
+    const order: Document[] = [];
+    let next: Document | undefined;
+    while ((next = ready.sort(this.#compare).shift()) !== undefined) {
+      order.push(next);
+
+      for (const child of children.get(next.id) ?? []) {
+        const remaining = (pending.get(child.id) ?? 0) - 1;
+        pending.set(child.id, remaining);
+        if (remaining === 0) {
+          ready.push(child);
+        }
+      }
+    }
+
+    return order;
+  }
+
+  /**
+   * Check every parent is known (or genesis) and earlier than its child
+   */
+  static verify(documents: Document[]): boolean {
+    try {
+      this.linearize(documents);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check parent_hashes is well-formed: at least two distinct hashes, led by parent_hash
+   * Returns the problem, or null
+   */
+  static checkParents(document: Document): string | null {
+    if (document.parent_hashes === undefined) {
+      return null;
+    }
+
+    const hashes: unknown = document.parent_hashes;
+    if (!Array.isArray(hashes) || hashes.length < 2) {
+      return 'parent_hashes must list at least 2 parents';
+    }
+
+    if (!hashes.every(hash => typeof hash === 'string' && /^[0-9a-f]{64}$/.test(hash))) {
+      return 'parent_hashes must be 64 character hex strings';
+    }
+
+    if (new Set(hashes).size !== hashes.length) {
+      return 'parent_hashes must not repeat a parent';
+    }
+
+    if (hashes[0] !== document.parent_hash) {
+      return 'parent_hashes[0] must equal parent_hash';
+    }
+
+    return null;
+  }
+
+  static #compare(a: Document, b: Document): number {
+    return (a.logical_time - b.logical_time) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Delegations
+ * Root-signed delegation documents authorize a device key to sign
+ * documents of the listed types within a logical-time window.
+ * Delegates MUST NOT author delegation, key-rotation or revocation documents.
+ */
+
+import { CanonicalJSON } from '../document/canonical.js';
+import { CryptoSuiteRegistry } from '../crypto/suite.js';
+import { KeyHistory } from './keys.js';
+import { fromHex, toHex } from '../utils/encoding.js';
+import { Document, DocumentPayload, NewZoneCoreError } from '../types.js';
+import { DOCUMENT_TYPES, ERROR_CODES, KEY_LENGTHS } from '../constants.js';
+
+// Types only the chain authority may sign
+const RESERVED_TYPES: readonly string[] = [
+  DOCUMENT_TYPES.DELEGATION,
+  DOCUMENT_TYPES.KEY_ROTATION,
+  DOCUMENT_TYPES.REVOCATION,
+  DOCUMENT_TYPES.MERGE
+];
+
+export interface DelegationScope {
+  allowedTypes: string[];
+  validFrom: number;  // Logical time, inclusive
+  validUntil: number; // Logical time, inclusive
+}
+
+export interface Delegation extends DelegationScope {
+  id: string;                 // ID of the delegation document
+  delegatePublicKey: Uint8Array;
+  issuedAt: number;           // Logical time of the delegation document
+  revokedAt?: number;         // Logical time of the earliest authentic revocation
+}
+
+export class DelegationSet {
+  #delegations: Delegation[];
+
+  private constructor(delegations: Delegation[]) {
+    this.#delegations = delegations;
+  }
+
+  /**
+   * Collect delegations from chain documents
+   * Delegations and their revocations count only if signed by
+   * the authority key active at their logical time
+   */
+  static async fromChain(histories: KeyHistory[], documents: Document[]): Promise<DelegationSet> {
+    const delegations: Delegation[] = [];
+
+    for (const doc of documents) {
+      if (doc.type !== DOCUMENT_TYPES.DELEGATION) continue;
+
+      const parsed = this.parse(doc.payload);
+      if (!parsed || !(await this.signedByAuthority(doc, histories))) continue;
+
+      delegations.push({ ...parsed, id: doc.id, issuedAt: doc.logical_time });
+    }
+
+    for (const doc of documents) {
+      if (doc.type !== DOCUMENT_TYPES.REVOCATION) continue;
+
+      const targets = doc.payload?.['targets'];
+      if (!Array.isArray(targets)) continue;
+
+      const revoked = delegations.filter(d =>
+        targets.includes(d.id) &&
+        doc.logical_time > d.issuedAt &&
+        (d.revokedAt === undefined || doc.logical_time < d.revokedAt)
+      );
+      if (revoked.length === 0 || !(await this.signedByAuthority(doc, histories))) continue;
+
+      for (const delegation of revoked) {
+        delegation.revokedAt = doc.logical_time;
+      }
+    }
+
+    return new DelegationSet(delegations);
+  }
+
+  /**
+   * Payload for a delegation document
+   * @throws NewZoneCoreError if the scope is malformed
+   */
+  static payload(delegatePublicKey: Uint8Array, scope: DelegationScope): DocumentPayload {
+    const payload: DocumentPayload = {
+      delegate_public_key: toHex(delegatePublicKey),
+      allowed_types: [...scope.allowedTypes],
+      valid_from: scope.validFrom,
+      valid_until: scope.validUntil
+    };
+
+    if (!this.parse(payload)) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'Invalid delegation: needs a 32-byte key, non-reserved allowed types and validFrom <= validUntil'
+      );
+    }
+
+    return payload;
+  }
+
+  /**
+   * Parse delegation payload (null if malformed)
+   */
+  static parse(payload?: DocumentPayload): (DelegationScope & { delegatePublicKey: Uint8Array }) | null {
+    const key = payload?.['delegate_public_key'];
+    const types = payload?.['allowed_types'];
+    const from = payload?.['valid_from'];
+    const until = payload?.['valid_until'];
+
+    if (typeof key !== 'string' || !/^[0-9a-f]{64}$/.test(key)) return null;
+    if (!Array.isArray(types) || types.length === 0) return null;
+    if (!types.every(t => typeof t === 'string' && t.length > 0 && !RESERVED_TYPES.includes(t))) return null;
+    if (!Number.isInteger(from) || !Number.isInteger(until)) return null;
+    if ((from as number) < 1 || (from as number) > (until as number)) return null;
+
+    const delegatePublicKey = fromHex(key);
+    if (delegatePublicKey.length !== KEY_LENGTHS.PUBLIC_KEY) return null;
+
+    return {
+      delegatePublicKey,
+      allowedTypes: types as string[],
+      validFrom: from as number,
+      validUntil: until as number
+    };
+  }
+
+  /**
+   * Sign a document on a delegated device
+   * Document MUST be built (ID set) and is returned with its signature
+   */
+  static async sign(doc: Document, delegatePrivateKey: Uint8Array): Promise<Document> {
+    const suite = CryptoSuiteRegistry.get(doc.crypto_suite);
+    const data = new TextEncoder().encode(CanonicalJSON.prepareForSigning(doc));
+
+    return { ...doc, signature: toHex(await suite.sign(data, delegatePrivateKey)) };
+  }
+
+  /**
+   * Check that a delegation covers a document
+   * Returns the reason it does not, or null if authorized
+   */
+  static check(delegation: Delegation, doc: Document): string | null {
+    if (RESERVED_TYPES.includes(doc.type)) {
+      return `Delegates may not sign ${doc.type} documents`;
+    }
+    if (!delegation.allowedTypes.includes(doc.type)) {
+      return `Delegation ${delegation.id} does not allow type ${doc.type}`;
+    }
+    if (doc.logical_time <= delegation.issuedAt ||
+        doc.logical_time < delegation.validFrom ||
+        doc.logical_time > delegation.validUntil) {
+      return `Delegation ${delegation.id} is not valid at logical time ${doc.logical_time}`;
+    }
+    if (delegation.revokedAt !== undefined && doc.logical_time >= delegation.revokedAt) {
+      return `Delegation ${delegation.id} revoked at logical time ${delegation.revokedAt}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether a document is signed by the authority key active at its logical time
+   */
+  private static async signedByAuthority(doc: Document, histories: KeyHistory[]): Promise<boolean> {
+    for (const history of histories) {
+      const epoch = history.resolve(doc.logical_time);
+      if (epoch && await KeyHistory.verifySignature(doc, epoch.publicKey)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * All authentic delegations in chain order
+   */
+  get delegations(): Delegation[] {
+    return this.#delegations.map(delegation => ({ ...delegation }));
+  }
+}
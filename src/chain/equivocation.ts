@@ -0,0 +1,190 @@
+/**
+ * Equivocation Proof
+ * Two different documents signed by one key on the same parent.
+ * Self-contained: anyone holding the signer's public key can check it offline.
+ */
+
+import { CanonicalJSON } from '../document/canonical.js';
+import { CryptoSuiteRegistry } from '../crypto/suite.js';
+import { KeyHistory } from './keys.js';
+import { ForkDetector } from './fork.js';
+import { constantTimeEqual } from '../utils/zeroize.js';
+import { fromHex, toHex } from '../utils/encoding.js';
+import { Document, NewZoneCoreError } from '../types.js';
+import { ERROR_CODES } from '../constants.js';
+
+export class EquivocationProof {
+  #publicKey: string;
+  #documents: [Document, Document];
+
+  private constructor(publicKey: string, documents: [Document, Document]) {
+    this.#publicKey = publicKey;
+    this.#documents = documents;
+  }
+
+  /**
+   * Build a proof from two conflicting documents
+   * Both signatures must verify under publicKey
+   * @throws NewZoneCoreError VALIDATION_FAILED if the documents do not equivocate
+   */
+  static async create(a: Document, b: Document, publicKey: Uint8Array): Promise<EquivocationProof> {
+    const proof = new EquivocationProof(toHex(publicKey), this.#order(a, b));
+    const problem = this.#checkConflict(proof.#documents) ??
+      (await proof.#checkSignatures() ? null : 'Both documents must be signed by the public key');
+
+    if (problem) {
+      throw new NewZoneCoreError(ERROR_CODES.VALIDATION_FAILED, problem, { ids: [a.id, b.id] });
+    }
+
+    return proof;
+  }
+
+  /**
+   * One proof per fork whose documents include two signed by publicKey
+   * Forks of documents signed by other keys yield no proof
+   */
+  static async collect(documents: Document[], publicKey: Uint8Array): Promise<EquivocationProof[]> {
+    const proofs: EquivocationProof[] = [];
+
+    for (const fork of ForkDetector.scan(documents)) {
+      const signed: Document[] = [];
+      const children = documents
+        .filter(doc => doc.parent_hash === fork.parentHash)
+        .sort((a, b) => this.#compare(a, b));
+
+      for (const doc of children) {
+        const repeated = signed.some(other => this.#compare(doc, other) === 0);
+        if (!repeated && await KeyHistory.verifySignature(doc, publicKey)) {
+          signed.push(doc);
+        }
+      }
+
+      const [a, b] = signed;
+      if (a && b) {
+        proofs.push(await this.create(a, b, publicKey));
+      }
+    }
+
+    return proofs;
+  }
+
+  /**
+   * Parse a serialized proof
+   * @throws NewZoneCoreError NON_CANONICAL_JSON or VALIDATION_FAILED if malformed
+   */
+  static parse(json: string): EquivocationProof {
+    const data = CanonicalJSON.parse(json) as Record<string, unknown> | null;
+    const documents = data?.['documents'];
+    const publicKey = data?.['public_key'];
+
+    const wellFormed = typeof data === 'object' && data !== null &&
+      typeof publicKey === 'string' && /^[0-9a-f]{64}$/.test(publicKey) &&
+      Array.isArray(documents) && documents.length === 2 &&
+      documents.every(doc => typeof doc === 'object' && doc !== null && !Array.isArray(doc)) &&
+      data['chain_id'] === documents[0].chain_id &&
+      data['parent_hash'] === documents[0].parent_hash;
+
+    if (!wellFormed) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'Malformed equivocation proof'
+      );
+    }
+
+    return new EquivocationProof(publicKey, this.#order(documents[0], documents[1]));
+  }
+
+  get chainId(): string {
+    return this.#documents[0].chain_id;
+  }
+
+  /**
+   * Parent both documents claim
+   */
+  get parentHash(): string {
+    return this.#documents[0].parent_hash;
+  }
+
+  get publicKey(): Uint8Array {
+    return fromHex(this.#publicKey);
+  }
+
+  get documents(): [Document, Document] {
+    return [{ ...this.#documents[0] }, { ...this.#documents[1] }];
+  }
+
+  /**
+   * Check the proof against the signer's public key
+   * Documents must share chain and parent, differ, carry matching IDs and verify under the key
+   */
+  async verify(publicKey: Uint8Array): Promise<boolean> {
+    if (!constantTimeEqual(publicKey, this.publicKey)) {
+      return false;
+    }
+
+    return EquivocationProof.#checkConflict(this.#documents) === null && await this.#checkSignatures();
+  }
+
+  /**
+   * Canonical JSON; documents ordered by ID, then signing bytes
+   */
+  serialize(): string {
+    return CanonicalJSON.serialize({
+      chain_id: this.chainId,
+      parent_hash: this.parentHash,
+      public_key: this.#publicKey,
+      documents: this.#documents
+    });
+  }
+
+  async #checkSignatures(): Promise<boolean> {
+    const publicKey = this.publicKey;
+
+    for (const doc of this.#documents) {
+      if (!(await KeyHistory.verifySignature(doc, publicKey))) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Returns the problem, or null
+   */
+  static #checkConflict([a, b]: [Document, Document]): string | null {
+    if (a.chain_id !== b.chain_id) {
+      return 'Documents belong to different chains';
+    }
+
+    if (a.parent_hash !== b.parent_hash) {
+      return 'Documents do not share a parent';
+    }
+
+    for (const doc of [a, b]) {
+      try {
+        if (CryptoSuiteRegistry.get(doc.crypto_suite).deriveDocumentId(doc) !== doc.id) {
+          return 'Document ID does not match its content';
+        }
+      } catch {
+        return 'Document ID does not match its content';
+      }
+    }
+
+    // IDs may match: under nzcore-crypto-01 they do not cover the payload
+    if (CanonicalJSON.prepareForSigning(a) === CanonicalJSON.prepareForSigning(b)) {
+      return 'Documents are identical';
+    }
+
+    return null;
+  }
+
+  static #order(a: Document, b: Document): [Document, Document] {
+    return this.#compare(a, b) <= 0 ? [a, b] : [b, a];
+  }
+
+  static #compare(a: Document, b: Document): number {
+    const [x, y] = [CanonicalJSON.prepareForSigning(a), CanonicalJSON.prepareForSigning(b)];
+    return (a.id < b.id ? -1 : a.id > b.id ? 1 : 0) || (x < y ? -1 : x > y ? 1 : 0);
+  }
+}
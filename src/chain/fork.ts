@@ -4,8 +4,8 @@
  * Core MUST NOT resolve forks automatically
  */
 
-import { Document, ForkInfo, NewZoneCoreError } from '../types.js';
-import { ERROR_CODES } from '../constants.js';
+import { Document, DocumentPayload, ForkInfo, NewZoneCoreError } from '../types.js';
+import { DOCUMENT_TYPES, ERROR_CODES } from '../constants.js';
 
 export class ForkDetector {
   /**
@@ -26,12 +26,12 @@ export class ForkDetector {
     // Detect forks (multiple children of same parent)
     for (const [parentHash, children] of parentMap.entries()) {
       if (children.length > 1) {
-        forks.push({
+        forks.push(this.withResolution({
           parentHash,
           documents: children.map(d => d.id),
           detectedAt: Math.max(...children.map(d => d.logical_time)),
           resolved: false
-        });
+        }, documents));
       }
     }
 
@@ -41,13 +41,13 @@ export class ForkDetector {
 
   /**
    * Create merge document (resolution document)
-   * MUST reference both conflicting hashes
+   * MUST reference both conflicting hashes; they become its ordered parents
    */
   static createMergeDocument(
     conflictHashes: string[],
     resolution: Record<string, unknown>
   ): Partial<Document> {
-    if (conflictHashes.length < 2) {
+    if (new Set(conflictHashes).size < 2) {
       throw new NewZoneCoreError(
         ERROR_CODES.FORK_DETECTED,
         'Merge requires at least 2 conflicting hashes',
@@ -55,16 +55,68 @@ export class ForkDetector {
       );
     }
 
+    const parents = [...new Set(conflictHashes)];
+
     return {
-      type: 'merge',
+      type: DOCUMENT_TYPES.MERGE,
       version: '1.0',
-      merges: conflictHashes,
+      parent_hash: parents[0],
+      parent_hashes: parents,
       resolution,
       // MUST NOT mark as automatically resolved
       automaticallyResolved: false
     };
   }
 
+  /**
+   * Payload of a merge document resolving a fork
+   * Lists every conflicting document and the one whose branch is kept
+   */
+  static mergePayload(fork: ForkInfo, keep: string, resolution?: string): DocumentPayload {
+    if (!fork.documents.includes(keep)) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'Kept document must be one of the conflicting documents',
+        { keep, documents: fork.documents }
+      );
+    }
+
+    const payload: DocumentPayload = {
+      fork: fork.parentHash,
+      conflicts: [...fork.documents].sort(),
+      keep
+    };
+    if (resolution !== undefined) {
+      payload['resolution'] = resolution;
+    }
+    return payload;
+  }
+
+  /**
+   * Earliest merge document resolving the fork
+   * It must name the fork's parent and list every conflicting document, so a
+   * branch created after the merge reopens the fork
+   */
+  static findResolution(fork: ForkInfo, documents: Document[]): Document | undefined {
+    return documents
+      .filter(doc => {
+        const conflicts = doc.payload?.['conflicts'];
+        return doc.type === DOCUMENT_TYPES.MERGE &&
+          doc.payload?.['fork'] === fork.parentHash &&
+          Array.isArray(conflicts) &&
+          fork.documents.every(id => conflicts.includes(id));
+      })
+      .sort((a, b) => (a.logical_time - b.logical_time) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))[0];
+  }
+
+  /**
+   * Fork marked resolved if the documents contain its merge document
+   */
+  static withResolution(fork: ForkInfo, documents: Document[]): ForkInfo {
+    const merge = this.findResolution(fork, documents);
+    return merge ? this.resolveFork(fork, merge.id) : fork;
+  }
+
   /**
    * Check if fork is still active
    */
@@ -0,0 +1,138 @@
+/**
+ * Key History
+ * Resolves which key may sign a chain document at a given logical time.
+ * The chain ID stays bound to the root key; key-rotation documents,
+ * signed by the outgoing key, introduce the next key.
+ */
+
+import { CanonicalJSON } from '../document/canonical.js';
+import { CryptoSuiteRegistry } from '../crypto/suite.js';
+import { constantTimeEqual } from '../utils/zeroize.js';
+import { fromHex, toHex } from '../utils/encoding.js';
+import { Document, DocumentPayload } from '../types.js';
+import { DOCUMENT_TYPES, KEY_LENGTHS } from '../constants.js';
+
+export interface KeyEpoch {
+  publicKey: Uint8Array;
+  validFrom: number;   // Logical time, inclusive
+  validUntil?: number; // Logical time, inclusive; open for the current key
+  rotation?: string;   // ID of the key-rotation document that introduced the key
+}
+
+export class KeyHistory {
+  #epochs: KeyEpoch[];
+
+  private constructor(epochs: KeyEpoch[]) {
+    this.#epochs = epochs;
+  }
+
+  /**
+   * Build history from chain documents
+   * Rotations not signed by the then-current key are ignored
+   */
+  static async fromChain(rootKey: Uint8Array, documents: Document[]): Promise<KeyHistory> {
+    const epochs: KeyEpoch[] = [{ publicKey: rootKey, validFrom: 0 }];
+
+    const rotations = documents
+      .filter(doc => doc.type === DOCUMENT_TYPES.KEY_ROTATION)
+      .sort((a, b) => a.logical_time - b.logical_time);
+
+    for (const rotation of rotations) {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      const current = epochs[epochs.length - 1]!; // Always contains the root epoch
+      const next = this.parseRotation(rotation, current.publicKey);
+
+      if (!next || rotation.logical_time < current.validFrom) {
+        continue;
+      }
+
+      if (!(await this.verifySignature(rotation, current.publicKey))) {
+        continue;
+      }
+
+      current.validUntil = rotation.logical_time;
+      epochs.push({
+        publicKey: next,
+        validFrom: rotation.logical_time + 1,
+        rotation: rotation.id
+      });
+    }
+
+    return new KeyHistory(epochs);
+  }
+
+  /**
+   * Payload for a key-rotation document
+   */
+  static rotationPayload(previousKey: Uint8Array, nextKey: Uint8Array): DocumentPayload {
+    return {
+      previous_public_key: toHex(previousKey),
+      next_public_key: toHex(nextKey)
+    };
+  }
+
+  /**
+   * Verify document signature under its declared suite
+   */
+  static async verifySignature(doc: Document, publicKey: Uint8Array): Promise<boolean> {
+    if (!doc.signature || !CryptoSuiteRegistry.has(doc.crypto_suite)) {
+      return false;
+    }
+
+    try {
+      const data = new TextEncoder().encode(CanonicalJSON.prepareForSigning(doc));
+      return await CryptoSuiteRegistry.get(doc.crypto_suite)
+        .verify(fromHex(doc.signature), data, publicKey);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Extract next key if rotation payload is well-formed
+   */
+  private static parseRotation(doc: Document, currentKey: Uint8Array): Uint8Array | null {
+    const previous = doc.payload?.['previous_public_key'];
+    const next = doc.payload?.['next_public_key'];
+    const hexKey = /^[0-9a-f]{64}$/;
+
+    if (typeof previous !== 'string' || typeof next !== 'string') return null;
+    if (!hexKey.test(previous) || !hexKey.test(next)) return null;
+    if (!constantTimeEqual(fromHex(previous), currentKey)) return null;
+
+    const nextKey = fromHex(next);
+    return nextKey.length === KEY_LENGTHS.PUBLIC_KEY ? nextKey : null;
+  }
+
+  /**
+   * All key epochs, oldest first
+   */
+  get epochs(): KeyEpoch[] {
+    return this.#epochs.map(epoch => ({ ...epoch }));
+  }
+
+  /**
+   * Key for documents after the latest rotation
+   */
+  get currentKey(): Uint8Array {
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    return this.#epochs[this.#epochs.length - 1]!.publicKey;
+  }
+
+  /**
+   * Epoch whose key may sign a document at the given logical time
+   */
+  resolve(logicalTime: number): KeyEpoch | undefined {
+    return this.#epochs.find(epoch =>
+      logicalTime >= epoch.validFrom &&
+      (epoch.validUntil === undefined || logicalTime <= epoch.validUntil)
+    );
+  }
+
+  /**
+   * Epoch of a given key (if it ever belonged to the chain)
+   */
+  findEpoch(publicKey: Uint8Array): KeyEpoch | undefined {
+    return this.#epochs.find(epoch => constantTimeEqual(epoch.publicKey, publicKey));
+  }
+}
@@ -3,10 +3,46 @@
  * Single source of truth for document chain
  */
 
-import { Blake2b } from '../crypto/blake2b.js';
-import { Document, ChainState, ForkInfo, NewZoneCoreError } from '../types.js';
+import { CryptoSuiteRegistry } from '../crypto/suite.js';
+import {
+  Document,
+  ChainLogReplay,
+  ChainState,
+  ChainStorage,
+  ChainStorageMeta,
+  ForkInfo,
+  ErrorCode,
+  NewZoneCoreError
+} from '../types.js';
 import { ERROR_CODES } from '../constants.js';
+import { ChainDag, GENESIS_PARENT } from './dag.js';
+import { ForkDetector } from './fork.js';
 import { LogicalClock } from '../identity/logical-time.js';
+import { ChainLog } from '../storage/log.js';
+import { DocumentValidator } from '../document/validator.js';
+
+export interface RejectedDocument {
+  id: string;
+  code: ErrorCode;
+  reason: string;
+}
+
+export interface ChainImportReport {
+  manager: ChainStateManager;  // Contains accepted documents only
+  accepted: string[];
+  rejected: RejectedDocument[];
+  errors: string[];            // State-level problems (lastHash, clock)
+  valid: boolean;              // Nothing rejected and no state errors
+}
+
+// In-memory state captured by checkpoint() for rollback()
+export interface ChainCheckpoint {
+  readonly documents: ReadonlyMap<string, Document>;
+  readonly lastHash: string;
+  readonly clock: number;
+  readonly forks: ReadonlyMap<string, ForkInfo>;
+  readonly forkCacheValid: boolean;
+}
 
 export class ChainStateManager {
   readonly chainId: string;
@@ -15,16 +51,168 @@ export class ChainStateManager {
   #clock: LogicalClock;
   #detectedForks: Map<string, ForkInfo> = new Map();
   #forkCacheValid = false;
+  #storage?: ChainStorage;
+  #pending?: Document[]; // Appends held back by batch()
 
-  constructor(chainId: string, initialTime: number = 1) {
+  constructor(chainId: string, initialTime: number = 1, storage?: ChainStorage) {
     this.chainId = chainId;
     this.#clock = new LogicalClock(initialTime);
+    this.#storage = storage;
+  }
+
+  /**
+   * Open chain backed by storage
+   * Restores documents and logical clock from stored meta
+   */
+  static open(chainId: string, storage: ChainStorage, initialTime: number = 1): ChainStateManager {
+    const snapshot = storage.load();
+
+    if (!snapshot) {
+      const manager = new ChainStateManager(chainId, initialTime, storage);
+      manager.#persist();
+      return manager;
+    }
+
+    if (snapshot.meta.chain_id !== chainId) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'Chain ID mismatch in storage',
+        { expected: chainId, got: snapshot.meta.chain_id }
+      );
+    }
+
+    const manager = new ChainStateManager(chainId, snapshot.meta.logical_clock, storage);
+    manager.#lastHash = snapshot.meta.head ?? snapshot.meta.last_state_hash;
+
+    for (const doc of snapshot.documents) {
+      manager.#documents.set(doc.id, doc);
+    }
+
+    return manager;
   }
 
   /**
    * Append document to chain
+   * @deprecated Use appendStrict(), or appendTrusted() for documents already checked
    */
   append(document: Document): void {
+    this.appendTrusted(document);
+  }
+
+  /**
+   * Append without checks, for bulk restore and documents the caller verified
+   * With storage attached, the commit is durable before memory is updated
+   * The clock advances by one, or to the document's time if that is later
+   */
+  appendTrusted(document: Document): void {
+    const nextClock = Math.max(this.#clock.current + 1, document.logical_time);
+    this.#add(document, nextClock);
+
+    // Advance logical time
+    this.#clock.sync(nextClock);
+  }
+
+  /**
+   * Append after checking links and signature against the root public key
+   * Rotated and delegated keys resolve from the chain
+   * @throws NewZoneCoreError DUPLICATE_DOCUMENT, ORPHAN_PARENT, LOGICAL_TIME_VIOLATION,
+   *   MISSING_SIGNATURE or INVALID_SIGNATURE (VALIDATION_FAILED if malformed)
+   */
+  async appendStrict(document: Document, publicKey: Uint8Array): Promise<void> {
+    this.#assertLinks(document);
+
+    if (typeof document.signature !== 'string' || document.signature.length === 0) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.MISSING_SIGNATURE,
+        'Document is not signed',
+        { id: document.id }
+      );
+    }
+
+    const result = await new DocumentValidator().validate(document, {
+      currentTime: 0,
+      trustedKeys: [publicKey],
+      chain: this.documents
+    });
+
+    if (!result.structural_valid || !result.cryptographic_valid) {
+      throw new NewZoneCoreError(
+        result.structural_valid ? ERROR_CODES.INVALID_SIGNATURE : ERROR_CODES.VALIDATION_FAILED,
+        result.errors?.join('; ') || 'Document failed verification',
+        { id: document.id }
+      );
+    }
+
+    // Chain may have changed while verifying
+    this.#assertLinks(document);
+    this.appendTrusted(document);
+  }
+
+  /**
+   * Append a document produced by another device of this identity
+   * Parent must be known; logical clock merges Lamport-style
+   * The head moves only if the document extends it; a sibling or a document
+   * on another branch is recorded (as a fork) and the local head is kept
+   * @throws NewZoneCoreError DUPLICATE_DOCUMENT, ORPHAN_PARENT or LOGICAL_TIME_VIOLATION
+   */
+  ingest(document: Document): void {
+    this.#assertLinks(document);
+
+    const extendsHead = ChainDag.parents(document).includes(this.#lastHash);
+    this.#add(
+      document,
+      Math.max(this.#clock.current, document.logical_time) + 1,
+      extendsHead ? document.id : this.#lastHash
+    );
+    this.#clock.merge(document.logical_time);
+  }
+
+  /**
+   * Check document is new, its parents are in the chain and it is later than each
+   */
+  #assertLinks(document: Document): void {
+    if (this.#documents.has(document.id)) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.DUPLICATE_DOCUMENT,
+        'Document already in chain',
+        { id: document.id }
+      );
+    }
+
+    const parentsError = ChainDag.checkParents(document);
+    if (parentsError) {
+      throw new NewZoneCoreError(ERROR_CODES.VALIDATION_FAILED, parentsError, { id: document.id });
+    }
+
+    for (const hash of ChainDag.parents(document)) {
+      if (hash === GENESIS_PARENT) {
+        continue;
+      }
+
+      const parent = this.#documents.get(hash);
+
+      if (!parent) {
+        throw new NewZoneCoreError(
+          ERROR_CODES.ORPHAN_PARENT,
+          `Parent ${hash} is not in the chain`,
+          { id: document.id }
+        );
+      }
+
+      if (!(document.logical_time > parent.logical_time)) {
+        throw new NewZoneCoreError(
+          ERROR_CODES.LOGICAL_TIME_VIOLATION,
+          `logical_time ${document.logical_time} <= parent logical_time ${parent.logical_time}`,
+          { id: document.id }
+        );
+      }
+    }
+  }
+
+  /**
+   * Persist and store document, recording forks; clock is advanced by the caller
+   */
+  #add(document: Document, nextClock: number, head: string = document.id): void {
     // Verify chain ID
     if (document.chain_id !== this.chainId) {
       throw new NewZoneCoreError(
@@ -34,6 +222,13 @@ export class ChainStateManager {
       );
     }
 
+    // Persist first: a failed write leaves in-memory state untouched
+    if (this.#pending) {
+      this.#pending.push(document);
+    } else {
+      this.#storage?.append(document, this.#meta(document.id, nextClock, head));
+    }
+
     // Verify parent hash and detect forks
     if (document.parent_hash !== this.#lastHash) {
       this.#detectFork(document);
@@ -43,13 +238,10 @@ export class ChainStateManager {
     this.#documents.set(document.id, document);
 
     // Update last hash
-    this.#lastHash = document.id;
+    this.#lastHash = head;
 
     // Invalidate fork cache - documents changed
     this.#forkCacheValid = false;
-
-    // Advance logical time
-    this.#clock.tick();
   }
 
   /**
@@ -213,14 +405,15 @@ export class ChainStateManager {
     }
 
     // Detect forks (multiple children of same parent)
+    const documents = this.documents;
     for (const [parentHash, children] of parentMap.entries()) {
       if (children.length > 1) {
-        this.#detectedForks.set(parentHash, {
+        this.#detectedForks.set(parentHash, ForkDetector.withResolution({
           parentHash,
           documents: children.map(d => d.id),
           detectedAt: Math.max(...children.map(d => d.logical_time)),
           resolved: false
-        });
+        }, documents));
       }
     }
   }
@@ -232,6 +425,7 @@ export class ChainStateManager {
     return {
       chainId: this.chainId,
       lastHash: this.#lastHash,
+      heads: this.getHeads(),
       logicalClock: this.#clock.current,
       documentCount: this.#documents.size,
       forks: this.forks
@@ -240,35 +434,104 @@ export class ChainStateManager {
 
   /**
    * Verify chain integrity
+   * Walks the DAG: parents present and earlier, IDs match their suite
    */
   verifyIntegrity(): boolean {
-    let prevHash = '0'.repeat(64);
+    const documents = this.documents;
 
-    // Sort by logical time
-    const sorted = Array.from(this.#documents.values())
-      .sort((a, b) => a.logical_time - b.logical_time);
+    for (const doc of documents) {
+      if (ChainDag.checkParents(doc) !== null) {
+        return false;
+      }
 
-    for (const doc of sorted) {
-      // Check parent chain
-      if (doc.parent_hash !== prevHash) {
+      // Verify document ID under its declared suite
+      if (!CryptoSuiteRegistry.has(doc.crypto_suite)) {
         return false;
       }
 
-      // Verify hash chain using unified document hash computation
-      const computedHash = Blake2b.computeDocumentHash(
-        doc.chain_id,
-        doc.parent_hash,
-        doc.logical_time,
-        doc.payload
-      );
-      if (computedHash !== doc.id) {
+      const computedId = CryptoSuiteRegistry.get(doc.crypto_suite).deriveDocumentId(doc);
+      if (computedId !== doc.id) {
         return false;
       }
+    }
+
+    return ChainDag.verify(documents);
+  }
+
+  /**
+   * DAG heads: documents without children, in linearization order
+   */
+  getHeads(): string[] {
+    return ChainDag.heads(this.documents);
+  }
+
+  /**
+   * Documents in deterministic topological order (same on every replica)
+   */
+  linearize(): Document[] {
+    return ChainDag.linearize(this.documents);
+  }
+
+  /**
+   * Capture state for rollback()
+   */
+  checkpoint(): ChainCheckpoint {
+    return {
+      documents: new Map(this.#documents),
+      lastHash: this.#lastHash,
+      clock: this.#clock.current,
+      forks: new Map(this.#detectedForks),
+      forkCacheValid: this.#forkCacheValid
+    };
+  }
+
+  /**
+   * Restore state captured by checkpoint(), including fork cache and clock
+   * Storage (if attached) is rewritten to match. The clock is a new
+   * LogicalClock instance, since clocks cannot move backwards.
+   */
+  rollback(checkpoint: ChainCheckpoint): void {
+    this.#restore(checkpoint);
+    this.#persist();
+  }
+
+  /**
+   * Run fn with storage writes held back, then store its appends as one commit
+   * If fn throws, memory is restored and storage was never written
+   */
+  async batch<T>(fn: () => Promise<T>): Promise<T> {
+    const checkpoint = this.checkpoint();
+    const pending: Document[] = [];
+    this.#pending = pending;
+
+    let result: T;
+    try {
+      result = await fn();
+    } catch (e) {
+      this.#restore(checkpoint);
+      throw e;
+    } finally {
+      this.#pending = undefined;
+    }
 
-      prevHash = doc.id;
+    if (pending.length > 0 && this.#storage) {
+      try {
+        this.#storage.appendBatch(pending, this.#meta(this.#lastHash, this.#clock.current, this.#lastHash));
+      } catch (e) {
+        this.rollback(checkpoint);
+        throw e;
+      }
     }
 
-    return true;
+    return result;
+  }
+
+  #restore(checkpoint: ChainCheckpoint): void {
+    this.#documents = new Map(checkpoint.documents);
+    this.#lastHash = checkpoint.lastHash;
+    this.#clock = new LogicalClock(checkpoint.clock);
+    this.#detectedForks = new Map(checkpoint.forks);
+    this.#forkCacheValid = checkpoint.forkCacheValid;
   }
 
   /**
@@ -279,6 +542,32 @@ export class ChainStateManager {
     this.#lastHash = '0'.repeat(64);
     this.#detectedForks.clear();
     this.#forkCacheValid = false;
+    this.#persist();
+  }
+
+  /**
+   * Build storage meta for the last stored document, clock and head
+   */
+  #meta(lastStateHash: string, logicalClock: number, head: string): ChainStorageMeta {
+    return {
+      chain_id: this.chainId,
+      logical_clock: logicalClock,
+      last_state_hash: lastStateHash,
+      ...(head !== lastStateHash ? { head } : {}),
+      version: this.#clock.toJSON().version
+    };
+  }
+
+  /**
+   * Write full state to storage (if attached)
+   */
+  #persist(): void {
+    const documents = Array.from(this.#documents.values());
+
+    this.#storage?.replace({
+      meta: this.#meta(documents[documents.length - 1]?.id ?? GENESIS_PARENT, this.#clock.current, this.#lastHash),
+      documents
+    });
   }
 
   /**
@@ -297,19 +586,189 @@ export class ChainStateManager {
   }
 
   /**
-   * Import state from persistence
+   * Export documents as an append-only chain log
    */
-  static import(data: Uint8Array, chainId: string): ChainStateManager {
-    const state = JSON.parse(new TextDecoder().decode(data));
-    
-    if (state.chainId !== chainId) {
-      throw new NewZoneCoreError(
-        ERROR_CODES.VALIDATION_FAILED,
-        'Chain ID mismatch during import'
-      );
+  exportLog(): Uint8Array {
+    return ChainLog.encode(Array.from(this.#documents.values()));
+  }
+
+  /**
+   * Replay chain log on startup
+   * A torn final record is dropped; mid-log corruption throws
+   * Head and clock follow the rules of appendTrusted() and ingest(): only a
+   * document extending the head moves it, others merge into the clock
+   */
+  static replay(
+    data: Uint8Array,
+    chainId: string,
+    initialTime: number = 1
+  ): { manager: ChainStateManager } & Omit<ChainLogReplay, 'documents'> {
+    const { documents, ...report } = ChainLog.decode(data);
+    const manager = new ChainStateManager(chainId, initialTime);
+
+    for (const doc of documents) {
+      if (doc.chain_id !== chainId) {
+        throw new NewZoneCoreError(
+          ERROR_CODES.VALIDATION_FAILED,
+          'Chain ID mismatch during replay',
+          { expected: chainId, got: doc.chain_id, id: doc.id }
+        );
+      }
+
+      manager.#documents.set(doc.id, doc);
+
+      if (ChainDag.parents(doc).includes(manager.#lastHash)) {
+        manager.#lastHash = doc.id;
+        manager.#clock.sync(Math.max(manager.#clock.current + 1, doc.logical_time));
+      } else {
+        manager.#clock.merge(doc.logical_time);
+      }
+    }
+
+    return { manager, ...report };
+  }
+
+  /**
+   * Import state from persistence, verifying every document
+   * Re-checks signatures against the identity key, parent links,
+   * logical time monotonicity, recorded lastHash and clock.
+   * Stored fork data is never trusted and is rebuilt from documents.
+   * Storage is only overwritten if the report is valid.
+   */
+  static async importVerified(
+    data: Uint8Array,
+    chainId: string,
+    publicKey: Uint8Array,
+    storage?: ChainStorage
+  ): Promise<ChainImportReport> {
+    const state = this.#parseState(data, chainId);
+    const validator = new DocumentValidator();
+
+    const accepted = new Map<string, Document>();
+    const rejected: RejectedDocument[] = [];
+    const errors: string[] = [];
+
+    const reject = (id: string, code: ErrorCode, reason: string): void => {
+      rejected.push({ id, code, reason });
+    };
+
+    // Parents before children; stable for equal logical times
+    const entries = state.documents
+      .map(([key, doc], index) => ({ key, doc, index }))
+      .filter(({ key, doc }) => {
+        if (!doc || typeof doc !== 'object' || doc.id !== key) {
+          reject(String(key), ERROR_CODES.VALIDATION_FAILED, 'Entry key does not match document ID');
+          return false;
+        }
+        return true;
+      })
+      .sort((a, b) => (a.doc.logical_time - b.doc.logical_time) || (a.index - b.index));
+
+    for (const { doc } of entries) {
+      const id = doc.id;
+
+      if (doc.chain_id !== chainId) {
+        reject(id, ERROR_CODES.VALIDATION_FAILED, 'Document chain ID mismatch');
+        continue;
+      }
+
+      if (accepted.has(doc.id)) {
+        reject(id, ERROR_CODES.VALIDATION_FAILED, 'Duplicate document ID');
+        continue;
+      }
+
+      const result = await validator.validate(doc, {
+        currentTime: 0,
+        trustedKeys: [publicKey],
+        chain: entries.map(entry => entry.doc)
+      });
+
+      if (!result.structural_valid) {
+        reject(id, ERROR_CODES.VALIDATION_FAILED, result.errors?.join('; ') || 'Structural validation failed');
+        continue;
+      }
+
+      if (!result.cryptographic_valid) {
+        reject(id, ERROR_CODES.INVALID_SIGNATURE, result.errors?.join('; ') || 'Signature verification failed');
+        continue;
+      }
+
+      const parentProblem = ChainDag.parents(doc)
+        .filter(hash => hash !== GENESIS_PARENT)
+        .map((hash): [ErrorCode, string] | null => {
+          const parent = accepted.get(hash);
+
+          if (!parent) {
+            return [ERROR_CODES.ORPHAN_PARENT, `Parent ${hash} is missing or was rejected`];
+          }
+
+          if (doc.logical_time <= parent.logical_time) {
+            return [
+              ERROR_CODES.LOGICAL_TIME_VIOLATION,
+              `logical_time ${doc.logical_time} <= parent logical_time ${parent.logical_time}`
+            ];
+          }
+
+          return null;
+        })
+        .find(problem => problem !== null);
+
+      if (parentProblem) {
+        reject(id, ...parentProblem);
+        continue;
+      }
+
+      accepted.set(doc.id, doc);
+    }
+
+    const acceptedDocs = Array.from(accepted.values());
+    const maxTime = acceptedDocs.reduce((max, doc) => Math.max(max, doc.logical_time), 1);
+
+    let clock = state.clock?.logical_clock;
+    if (typeof clock !== 'number' || !Number.isInteger(clock) || clock < maxTime) {
+      errors.push(`Recorded logical clock ${clock} is behind chain (${maxTime})`);
+      clock = maxTime;
+    }
+
+    let lastHash = state.lastHash;
+    const lastHashKnown = acceptedDocs.length === 0
+      ? lastHash === GENESIS_PARENT
+      : accepted.has(lastHash);
+
+    if (!lastHashKnown) {
+      errors.push(`Recorded lastHash ${lastHash} is not an accepted document`);
+      lastHash = acceptedDocs[acceptedDocs.length - 1]?.id ?? GENESIS_PARENT;
+    }
+
+    const valid = rejected.length === 0 && errors.length === 0;
+    const manager = new ChainStateManager(chainId, clock, valid ? storage : undefined);
+    manager.#lastHash = lastHash;
+
+    // Preserve original insertion order
+    for (const [id] of state.documents) {
+      const doc = accepted.get(id);
+      if (doc) manager.#documents.set(id, doc);
     }
+
+    manager.#persist();
+
+    return {
+      manager,
+      accepted: Array.from(manager.#documents.keys()),
+      rejected,
+      errors,
+      valid
+    };
+  }
+
+  /**
+   * Import state from persistence
+   * If storage is given, it is overwritten with the imported state
+   */
+  static import(data: Uint8Array, chainId: string, storage?: ChainStorage): ChainStateManager {
+    const state = this.#parseState(data, chainId);
     
-    const manager = new ChainStateManager(chainId, state.clock.logical_clock);
+    const manager = new ChainStateManager(chainId, state.clock.logical_clock, storage);
     manager.#lastHash = state.lastHash;
     
     for (const [id, doc] of state.documents) {
@@ -319,7 +778,47 @@ export class ChainStateManager {
     for (const [hash, fork] of state.forks) {
       manager.#detectedForks.set(hash, fork);
     }
+
+    manager.#persist();
     
     return manager;
   }
+
+  /**
+   * Parse exported state and check chain ID
+   */
+  static #parseState(data: Uint8Array, chainId: string): {
+    chainId: string;
+    lastHash: string;
+    clock: { logical_clock: number };
+    documents: [string, Document][];
+    forks: [string, ForkInfo][];
+  } {
+    let state;
+    try {
+      state = JSON.parse(new TextDecoder().decode(data));
+    } catch (e) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'Invalid state encoding',
+        { error: e }
+      );
+    }
+
+    if (!state || !Array.isArray(state.documents)) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'Invalid state structure'
+      );
+    }
+    
+    if (state.chainId !== chainId) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'Chain ID mismatch during import'
+      );
+    }
+
+    return state;
+  }
 }
@@ -6,6 +6,13 @@
 // Crypto suite identifier - immutable once defined
 export const CRYPTO_SUITE = 'nzcore-crypto-01' as const;
 
+// Content-binding document IDs, 64-bit logical time
+// Same primitives as nzcore-crypto-01
+export const CRYPTO_SUITE_V2 = 'nzcore-crypto-02' as const;
+
+// Suite used for new documents
+export const DEFAULT_CRYPTO_SUITE = CRYPTO_SUITE_V2;
+
 // Scrypt parameters per specification
 export const SCRYPT_PARAMS = {
   N: 32768, // 2^15
@@ -34,6 +41,14 @@ export const LOGICAL_TIME = {
 // Document versions
 export const DOCUMENT_VERSION = '1.0' as const;
 
+// Document types with Core-defined semantics
+export const DOCUMENT_TYPES = {
+  KEY_ROTATION: 'key-rotation',
+  REVOCATION: 'revocation',
+  DELEGATION: 'delegation',
+  MERGE: 'merge'
+} as const;
+
 // BIP-39 wordlist
 export const BIP39_STRENGTH = 256; // 24 words
 export const BIP39_WORDLIST = 'english' as const;
@@ -55,5 +70,27 @@ export const ERROR_CODES = {
   FORK_DETECTED: 'ERR_FORK_DETECTED',
   LOGICAL_TIME_VIOLATION: 'ERR_LOGICAL_TIME_VIOLATION',
   CRYPTO_SUITE_MISMATCH: 'ERR_CRYPTO_SUITE_MISMATCH',
-  VALIDATION_FAILED: 'ERR_VALIDATION_FAILED'
+  VALIDATION_FAILED: 'ERR_VALIDATION_FAILED',
+  STORAGE_FAILED: 'ERR_STORAGE_FAILED',
+  LOG_CORRUPTED: 'ERR_LOG_CORRUPTED',
+  ORPHAN_PARENT: 'ERR_ORPHAN_PARENT',
+  DOCUMENT_EXPIRED: 'ERR_DOCUMENT_EXPIRED',
+  DOCUMENT_REVOKED: 'ERR_DOCUMENT_REVOKED',
+  DELEGATION_DENIED: 'ERR_DELEGATION_DENIED',
+  INVALID_DERIVATION_PATH: 'ERR_INVALID_DERIVATION_PATH',
+  INVALID_SHARE: 'ERR_INVALID_SHARE',
+  SHARE_MISMATCH: 'ERR_SHARE_MISMATCH',
+  INSUFFICIENT_SHARES: 'ERR_INSUFFICIENT_SHARES',
+  INVALID_KEYSTORE: 'ERR_INVALID_KEYSTORE',
+  WRONG_PASSWORD: 'ERR_WRONG_PASSWORD',
+  KEYSTORE_TAMPERED: 'ERR_KEYSTORE_TAMPERED',
+  KEYRING_LOCKED: 'ERR_KEYRING_LOCKED',
+  UNKNOWN_IDENTITY: 'ERR_UNKNOWN_IDENTITY',
+  CORE_LOCKED: 'ERR_CORE_LOCKED',
+  AGENT_DENIED: 'ERR_AGENT_DENIED',
+  AGENT_UNAVAILABLE: 'ERR_AGENT_UNAVAILABLE',
+  WATCH_ONLY: 'ERR_WATCH_ONLY',
+  STALE_REQUEST: 'ERR_STALE_REQUEST',
+  DUPLICATE_DOCUMENT: 'ERR_DUPLICATE_DOCUMENT',
+  MISSING_SIGNATURE: 'ERR_MISSING_SIGNATURE'
 } as const;
\ No newline at end of file
@@ -5,14 +5,22 @@
 
 import { IdentityDerivation } from './identity/derivation.js';
 import { Mnemonic } from './identity/mnemonic.js';
+import { Keystore } from './identity/keystore.js';
+import { KeyLock, SealedKey } from './identity/lock.js';
+import { LocalSigner, WatchOnlySigner } from './identity/signer.js';
 import { DocumentBuilder } from './document/builder.js';
 import { DocumentValidator } from './document/validator.js';
-import { ChainStateManager } from './chain/state.js';
+import { SigningRequest } from './document/signing-request.js';
+import { ChainStateManager, ChainImportReport } from './chain/state.js';
 import { ForkDetector } from './chain/fork.js';
+import { ChainDag } from './chain/dag.js';
+import { KeyHistory } from './chain/keys.js';
+import { DelegationScope, DelegationSet } from './chain/delegation.js';
 import { LogicalClock } from './identity/logical-time.js';
+import { CryptoSuiteRegistry } from './crypto/suite.js';
 import { Ed25519 } from './crypto/ed25519.js';
-import { zeroize } from './utils/zeroize.js';
-import { toHex } from './utils/encoding.js';
+import { zeroize, constantTimeEqual } from './utils/zeroize.js';
+import { toHex, mergeArrays } from './utils/encoding.js';
 import { CanonicalJSON } from './document/canonical.js';
 import { RateLimiter } from './utils/rate-limiter.js';
 
@@ -20,39 +28,84 @@ import {
   Document,
   DocumentPayload,
   ValidationResult,
+  AutoLockOptions,
   ChainState,
+  ScryptParams,
+  ChainTransaction,
+  CreateDocumentOptions,
+  CryptoSuite,
+  DocumentDraft,
   ForkInfo,
+  ForkResolutionOptions,
+  KeystoreFile,
   NewZoneCoreOptions,
   NewZoneCoreInstance,
-  NewZoneCoreError
+  NewZoneCoreError,
+  Signer
 } from './types.js';
-import { ERROR_CODES } from './constants.js';
+import { ERROR_CODES, DEFAULT_CRYPTO_SUITE, DOCUMENT_TYPES, KEY_LENGTHS } from './constants.js';
+
+// Signing attempts per document when the head moves under an in-flight signature
+const MAX_COMMIT_ATTEMPTS = 3;
 
 export class NewZoneCore implements NewZoneCoreInstance {
   #identity: {
     publicKey: Uint8Array;
-    privateKey: Uint8Array;
     chainId: string;
   } | null = null;
 
+  // Signs new documents (root key until rotated)
+  #signer: Signer | null = null;
+  #signingPublicKey: Uint8Array | null = null;
+
+  // Root key of the chain when #signer is a delegated device key
+  #delegatedBy: Uint8Array | null = null;
+
+  // In-process private keys: root key (mnemonic path) and a local rotated key
+  #rootKey: Uint8Array | null = null;
+  #signingKey: Uint8Array | null = null;
+
   #chainState: ChainStateManager | null = null;
   #clock: LogicalClock | null = null;
   #validator: DocumentValidator | null = null;
   #rateLimiter: RateLimiter | null = null;
   #mnemonic?: string;
   #options: NewZoneCoreOptions;
+  #suite: CryptoSuite;
 
-  constructor(mnemonic: string, options: NewZoneCoreOptions = {}) {
-    // Validate mnemonic
-    if (!Mnemonic.validate(mnemonic)) {
-      throw new NewZoneCoreError(
-        ERROR_CODES.INVALID_MNEMONIC,
-        'Invalid BIP-39 mnemonic'
-      );
+  // Locked mode: private keys and mnemonic exist only as #sealed
+  #lock: KeyLock | null = null;
+  #sealed: SealedKey | null = null;
+  #sealing: Promise<void> | null = null;
+  #locked = false;
+  #autoLock: AutoLockOptions | null = null;
+  #autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+  #signatures = 0;
+
+  // Signed, uncommitted documents by ID (prepareDocument)
+  #prepared = new Map<string, Document>();
+
+  // Tail of the commit queue; async chain mutations run one at a time
+  #queue: Promise<void> = Promise.resolve();
+
+  constructor(source: string | Signer, options: NewZoneCoreOptions = {}) {
+    if (typeof source === 'string') {
+      // Validate mnemonic
+      if (!Mnemonic.validate(source)) {
+        throw new NewZoneCoreError(
+          ERROR_CODES.INVALID_MNEMONIC,
+          'Invalid BIP-39 mnemonic'
+        );
+      }
+      this.#mnemonic = source;
+    } else {
+      this.#signer = source;
     }
 
-    this.#mnemonic = mnemonic;
     this.#options = options;
+
+    // Active suite for new documents; verification accepts every registered suite
+    this.#suite = CryptoSuiteRegistry.get(options.cryptoSuite ?? DEFAULT_CRYPTO_SUITE);
   }
 
   /**
@@ -64,21 +117,95 @@ export class NewZoneCore implements NewZoneCoreInstance {
     return instance;
   }
 
+  /**
+   * Create from an external signer; no private key enters the core
+   * The signer's public key is the chain's root key
+   */
+  static async fromSigner(signer: Signer, options: NewZoneCoreOptions = {}): Promise<NewZoneCore> {
+    const instance = new NewZoneCore(signer, options);
+    await instance.initialize();
+    return instance;
+  }
+
+  /**
+   * Device core: signs with a delegate key on the chain of rootPublicKey
+   * Documents are built, queued and committed like any other; each must be
+   * covered by a delegation on this chain (import or ingest it first)
+   */
+  static async fromDelegate(
+    signer: Signer,
+    rootPublicKey: Uint8Array,
+    options: NewZoneCoreOptions = {}
+  ): Promise<NewZoneCore> {
+    const instance = new NewZoneCore(signer, options);
+    instance.#delegatedBy = rootPublicKey.slice();
+    await instance.initialize();
+    return instance;
+  }
+
+  /**
+   * Watch-only core: tracks the chain and creates signing requests, never signs
+   */
+  static async watchOnly(publicKey: Uint8Array, options: NewZoneCoreOptions = {}): Promise<NewZoneCore> {
+    return NewZoneCore.fromSigner(new WatchOnlySigner(publicKey), options);
+  }
+
+  /**
+   * Open identity from a password-encrypted keystore
+   * @throws NewZoneCoreError WRONG_PASSWORD, KEYSTORE_TAMPERED or INVALID_KEYSTORE
+   */
+  static async fromKeystore(
+    file: KeystoreFile | string,
+    password: string | Uint8Array,
+    options: NewZoneCoreOptions = {}
+  ): Promise<NewZoneCore> {
+    const keystore = Keystore.parse(file);
+    const instance = await NewZoneCore.create(await Keystore.decrypt(keystore, password), options);
+
+    // Recorded chain ID is authenticated; a mismatch means a substituted file
+    if (instance.#identity!.chainId !== keystore.chain_id) {
+      instance.destroy();
+      throw new NewZoneCoreError(
+        ERROR_CODES.KEYSTORE_TAMPERED,
+        'Keystore identity does not match its recorded chain ID'
+      );
+    }
+
+    return instance;
+  }
+
   /**
    * Асинхронная инициализация
    */
   private async initialize(): Promise<void> {
     try {
       // Derive identity (deterministic from mnemonic ONLY)
-      const derivation = await IdentityDerivation.fromMnemonic(this.#mnemonic!);
-      this.#identity = derivation.rootKey;
+      if (this.#mnemonic !== undefined) {
+        const { rootKey } = await IdentityDerivation.fromMnemonic(this.#mnemonic);
+        this.#rootKey = rootKey.privateKey;
+        this.#signer = new LocalSigner(rootKey);
+      }
 
-      // Initialize logical time
-      this.#clock = new LogicalClock(this.#options.initialTime || 1);
+      const signingPublicKey = this.#signer!.getPublicKey();
+      const publicKey = this.#delegatedBy ?? signingPublicKey;
+      if (publicKey.length !== KEY_LENGTHS.PUBLIC_KEY || signingPublicKey.length !== KEY_LENGTHS.PUBLIC_KEY) {
+        throw new NewZoneCoreError(
+          ERROR_CODES.INVALID_KEY,
+          'Signer public key must be 32 bytes'
+        );
+      }
+      this.#identity = { publicKey, chainId: IdentityDerivation.deriveChainId(publicKey) };
+      this.#signingPublicKey = signingPublicKey;
 
-      // Initialize chain state
+      // Initialize chain state (restored from storage if configured)
       const chainId = this.#options.chainId || this.#identity.chainId;
-      this.#chainState = new ChainStateManager(chainId, this.#clock.current);
+      const initialTime = this.#options.initialTime || 1;
+      this.#chainState = this.#options.storage
+        ? ChainStateManager.open(chainId, this.#options.storage, initialTime)
+        : new ChainStateManager(chainId, initialTime);
+
+      // Initialize logical time (storage meta is authoritative)
+      this.#clock = new LogicalClock(this.#chainState.clock.current);
 
       // Initialize validator
       this.#validator = new DocumentValidator();
@@ -101,41 +228,261 @@ export class NewZoneCore implements NewZoneCoreInstance {
    * Create a new document
    * Core API: deterministic, no wall-clock dependencies
    */
-  async createDocument(type: string, payload: DocumentPayload = {}): Promise<Document> {
+  async createDocument(
+    type: string,
+    payload: DocumentPayload = {},
+    options: CreateDocumentOptions = {}
+  ): Promise<Document> {
+    return this.#enqueue(() => this.#createDocument(type, payload, options));
+  }
+
+  /**
+   * Create a batch of documents as one all-or-nothing transaction
+   * Storage is written once, after every document is signed, so a crash
+   * keeps all of the batch or none. On failure, chain, clock and fork cache are restored
+   */
+  async createDocuments(drafts: DocumentDraft[]): Promise<Document[]> {
+    return this.#enqueue(() => this.#createDocuments(drafts));
+  }
+
+  /**
+   * Run fn with exclusive access to the chain
+   * Other mutations wait until fn settles. Inside fn, mutate through tx:
+   * calling this core's queued methods would wait on fn itself.
+   */
+  async withLock<T>(fn: (tx: ChainTransaction) => Promise<T> | T): Promise<T> {
+    return this.#enqueue(async () => {
+      this.assertInitialized();
+
+      let open = true;
+      const assertOpen = (): void => {
+        if (!open) {
+          throw new NewZoneCoreError(
+            ERROR_CODES.VALIDATION_FAILED,
+            'Transaction used after withLock() returned'
+          );
+        }
+      };
+
+      const tx: ChainTransaction = {
+        createDocument: async (type, payload = {}, options = {}) => {
+          assertOpen();
+          return this.#createDocument(type, payload, options);
+        },
+        createDocuments: async drafts => {
+          assertOpen();
+          return this.#createDocuments(drafts);
+        },
+        getChainState: () => {
+          assertOpen();
+          return this.getChainState();
+        }
+      };
+
+      try {
+        return await fn(tx);
+      } finally {
+        open = false;
+      }
+    });
+  }
+
+  /**
+   * Run operation after every earlier queued mutation has settled
+   */
+  #enqueue<T>(operation: () => Promise<T> | T): Promise<T> {
+    const result = this.#queue.then(operation);
+    this.#queue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  /**
+   * Build, sign and commit on the current head; caller holds the queue
+   * Rebuilt on the new head if a synchronous commit moved it while signing
+   * parents, if given, is re-evaluated for each attempt (merge documents)
+   */
+  async #createDocument(
+    type: string,
+    payload: DocumentPayload,
+    options: CreateDocumentOptions,
+    parents?: () => string[]
+  ): Promise<Document> {
+    for (let attempt = 1; ; attempt++) {
+      this.assertInitialized();
+      this.assertUnlocked();
+      this.assertCanSign();
+
+      const doc = await this.#sign(
+        await this.#buildDocument(type, payload, options, this.#clock!.current + 1, parents?.())
+      );
+      this.#recordSignature();
+
+      try {
+        this.#commit(doc);
+        return doc;
+      } catch (e) {
+        if (attempt >= MAX_COMMIT_ATTEMPTS || (e as NewZoneCoreError).code !== ERROR_CODES.STALE_REQUEST) {
+          throw e;
+        }
+      }
+    }
+  }
+
+  async #createDocuments(drafts: DocumentDraft[]): Promise<Document[]> {
+    this.assertInitialized();
+    this.assertUnlocked();
+    this.assertCanSign();
+
+    const clockTime = this.#clock!.current;
+
+    const created: Document[] = [];
+    try {
+      // Stored as one commit once every document is signed
+      await this.#chainState!.batch(async () => {
+        for (const draft of drafts) {
+          const doc = await this.#buildDocument(
+            draft.type,
+            draft.payload ?? {},
+            draft.options ?? {},
+            this.#clock!.current + 1
+          );
+          this.#commit(await this.#sign(doc));
+          created.push(doc);
+        }
+      });
+    } catch (e) {
+      this.#clock = new LogicalClock(clockTime);
+      throw e;
+    }
+
+    // Counted after the batch so auto-lock cannot split it
+    this.#recordSignature(created.length);
+    return created;
+  }
+
+  /**
+   * Append a document built for the next logical time on the head it names
+   * The expected parent is re-checked here, after any async signing
+   * @throws NewZoneCoreError STALE_REQUEST if head or clock moved
+   */
+  #commit(doc: Document): void {
+    this.assertHead(doc);
+    if (doc.logical_time !== this.#clock!.current + 1) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.STALE_REQUEST,
+        'Logical clock moved since the document was built'
+      );
+    }
+
+    this.#chainState!.appendTrusted(doc);
+    this.#clock!.tick();
+  }
+
+  /**
+   * Build and sign a document on the current head without committing it
+   * Logical time is not advanced until commitDocument()
+   */
+  async prepareDocument(
+    type: string,
+    payload: DocumentPayload = {},
+    options: CreateDocumentOptions = {}
+  ): Promise<Document> {
+    this.assertInitialized();
+    this.assertUnlocked();
+    this.assertCanSign();
+
+    const doc = await this.#sign(
+      await this.#buildDocument(type, payload, options, this.#clock!.current + 1)
+    );
+    this.#recordSignature();
+
+    this.#prepared.set(doc.id, doc);
+    return { ...doc };
+  }
+
+  /**
+   * Append a prepared document if head and clock have not moved
+   * @throws NewZoneCoreError STALE_REQUEST if the chain moved since prepareDocument()
+   */
+  commitDocument(document: Document): Document {
     this.assertInitialized();
 
-    const logicalTime = this.#clock!.tick();
-    const parentHash = this.#chainState!.getLastHash();
+    const prepared = this.#prepared.get(document.id);
+    if (!prepared || !CanonicalJSON.canonicalEqual(prepared, document)) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'Document was not prepared by this core',
+        { id: document.id }
+      );
+    }
+
+    this.#commit(prepared);
 
+    // Documents prepared on an earlier head can no longer commit
+    for (const [id, doc] of this.#prepared) {
+      if (doc.parent_hash !== prepared.id) {
+        this.#prepared.delete(id);
+      }
+    }
+
+    return { ...prepared };
+  }
+
+  /**
+   * Release a prepared document; its logical time is reused
+   * Returns false if it was not pending
+   */
+  discard(document: Document | string): boolean {
+    return this.#prepared.delete(typeof document === 'string' ? document : document.id);
+  }
+
+  /**
+   * Build unsigned document on the current head
+   */
+  async #buildDocument(
+    type: string,
+    payload: DocumentPayload,
+    options: CreateDocumentOptions,
+    logicalTime: number,
+    parents: string[] = [this.#chainState!.getLastHash()]
+  ): Promise<Document> {
     const builder = new DocumentBuilder()
       .setType(type)
       .setChainId(this.#chainState!.chainId)
-      .setParentHash(parentHash)
+      .setParentHash(parents[0] ?? this.#chainState!.getLastHash())
       .setLogicalTime(logicalTime)
-      .setCryptoSuite('nzcore-crypto-01')
+      .setCryptoSuite(this.#suite.id)
       .setPayload(payload);
 
-    // Generate deterministic ID
-    const id = IdentityDerivation.deriveDocumentId(
-      this.#chainState!.chainId,
-      parentHash,
-      logicalTime
-    );
-    builder.setId(id);
+    if (parents.length > 1) {
+      builder.setParentHashes(parents);
+    }
+
+    if (options.validUntil !== undefined) {
+      builder.setValidUntil(options.validUntil);
+    }
 
-    // Build document (canonical)
-    const doc = await builder.build();
+    // Build document (canonical, content-binding ID)
+    return builder.build();
+  }
 
-    // Sign document
+  /**
+   * Sign document in place with the current signer
+   */
+  async #sign(doc: Document): Promise<Document> {
     const docWithoutSig = { ...doc };
     delete (docWithoutSig as { signature?: unknown }).signature;
 
-    const canonical = CanonicalJSON.serialize(docWithoutSig);
+    const canonical = new TextEncoder().encode(CanonicalJSON.serialize(docWithoutSig));
 
-    const signatureBytes = await Ed25519.sign(
-      new TextEncoder().encode(canonical),
-      this.#identity!.privateKey
-    );
+    this.assertUnlocked();
+    if (this.#delegatedBy) {
+      await this.#assertDelegated(doc);
+    }
+
+    const signer = this.#signer!;
+    const publicKey = this.#signingPublicKey!;
+    const signatureBytes = await signer.sign(canonical);
 
     if (!signatureBytes || signatureBytes.length !== 64) {
       throw new NewZoneCoreError(
@@ -144,12 +491,175 @@ export class NewZoneCore implements NewZoneCoreInstance {
       );
     }
 
+    // External signers are not trusted to use the expected key
+    const suite = CryptoSuiteRegistry.get(doc.crypto_suite);
+    if (!(await suite.verify(signatureBytes, canonical, publicKey))) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.INVALID_SIGNATURE,
+        'Signer returned a signature that does not verify under the signing key'
+      );
+    }
+
     doc.signature = toHex(signatureBytes);
+    return doc;
+  }
 
-    // Commit to chain
-    this.#chainState!.append(doc);
+  /**
+   * Prepare an unsigned document for an offline signer (nzreq1:)
+   * Logical time is not advanced; the request is bound to the current head
+   */
+  async createSigningRequest(
+    type: string,
+    payload: DocumentPayload = {},
+    options: CreateDocumentOptions = {}
+  ): Promise<string> {
+    this.assertInitialized();
 
-    return doc;
+    const doc = await this.#buildDocument(type, payload, options, this.#clock!.current + 1);
+    return SigningRequest.encode(doc);
+  }
+
+  /**
+   * Offline side: check a signing request against this chain, sign and append it
+   * Returns the signed document (nzdoc1:)
+   * @throws NewZoneCoreError STALE_REQUEST if this chain's head moved
+   */
+  async signRequest(request: string): Promise<string> {
+    const doc = SigningRequest.decode(request);
+
+    return this.#enqueue(async () => {
+      this.assertInitialized();
+      this.assertUnlocked();
+      this.assertCanSign();
+
+      await DocumentBuilder.fromDocument(doc).build();
+
+      if (CryptoSuiteRegistry.get(doc.crypto_suite).deriveDocumentId(doc) !== doc.id) {
+        throw new NewZoneCoreError(
+          ERROR_CODES.VALIDATION_FAILED,
+          'Signing request document ID does not match its content'
+        );
+      }
+
+      this.assertHead(doc);
+      await this.#sign(doc);
+      this.#recordSignature();
+      this.#commitSynced(doc);
+
+      return SigningRequest.encodeResponse(doc);
+    });
+  }
+
+  /**
+   * Online side: verify a signed document from the offline signer and append it
+   * @throws NewZoneCoreError STALE_REQUEST if the head moved since the request
+   */
+  async commitSignedDocument(response: string): Promise<Document> {
+    const doc = SigningRequest.decodeResponse(response);
+
+    return this.#enqueue(async () => {
+      this.assertInitialized();
+      this.assertHead(doc);
+
+      const result = await this.#validator!.validate(doc, {
+        currentTime: this.#clock!.current,
+        trustedKeys: [this.#identity!.publicKey],
+        chain: this.#chainState!.documents
+      });
+
+      if (!result.final) {
+        throw new NewZoneCoreError(
+          result.codes?.[0] ?? ERROR_CODES.INVALID_SIGNATURE,
+          'Signed document failed verification',
+          { errors: result.errors }
+        );
+      }
+
+      this.#commitSynced(doc);
+      return doc;
+    });
+  }
+
+  /**
+   * Append a document from the other side of a signing request
+   * Its logical time may be ahead of this clock; both clocks move up to it
+   */
+  #commitSynced(doc: Document): void {
+    this.assertHead(doc);
+    if (doc.logical_time <= this.#clock!.current) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.LOGICAL_TIME_VIOLATION,
+        `Logical time MUST increase strictly: ${doc.logical_time} <= ${this.#clock!.current}`
+      );
+    }
+
+    this.#chainState!.appendTrusted(doc);
+    this.#clock!.sync(doc.logical_time);
+  }
+
+  /**
+   * Add a document produced by another device of this identity
+   * Fully validated at its own logical time; its parent must be in the chain.
+   * Only a document extending the head moves it; otherwise the local head is
+   * kept and a sibling records a fork. The clock merges Lamport-style to
+   * max(local, remote) + 1.
+   * @throws NewZoneCoreError ORPHAN_PARENT, LOGICAL_TIME_VIOLATION or a validation code
+   */
+  async ingestDocument(document: Document): Promise<Document> {
+    return this.#enqueue(async () => {
+      this.assertInitialized();
+
+      const result = await this.#validator!.validate(document, {
+        currentTime: document.logical_time,
+        trustedKeys: [this.#identity!.publicKey],
+        chain: this.#chainState!.documents
+      });
+
+      if (!result.final) {
+        throw new NewZoneCoreError(
+          !result.structural_valid
+            ? ERROR_CODES.VALIDATION_FAILED
+            : !result.cryptographic_valid
+              ? ERROR_CODES.INVALID_SIGNATURE
+              : result.codes?.[0] ?? ERROR_CODES.VALIDATION_FAILED,
+          'Ingested document failed verification',
+          { id: document.id, errors: result.errors }
+        );
+      }
+
+      this.#chainState!.ingest(document);
+      this.#clock!.merge(document.logical_time);
+
+      return document;
+    });
+  }
+
+  /**
+   * Check document extends the current head
+   */
+  private assertHead(doc: Document): void {
+    if (doc.chain_id !== this.#chainState!.chainId) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'Document chain ID mismatch',
+        { expected: this.#chainState!.chainId, got: doc.chain_id }
+      );
+    }
+
+    // A merge extends the heads it joins; other documents extend the last head
+    const parents = ChainDag.parents(doc);
+    const heads = parents.length > 1 ? this.#chainState!.getHeads() : [];
+    const extendsHead = parents.length > 1
+      ? parents.every(hash => heads.includes(hash))
+      : doc.parent_hash === this.#chainState!.getLastHash();
+
+    if (!extendsHead || !(doc.logical_time > this.#clock!.current)) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.STALE_REQUEST,
+        'Chain head moved; document no longer extends it',
+        { head: this.#chainState!.getLastHash(), parentHash: doc.parent_hash }
+      );
+    }
   }
 
   /**
@@ -164,10 +674,197 @@ export class NewZoneCore implements NewZoneCoreInstance {
 
     return this.#validator!.validate(document, {
       currentTime: this.#clock!.current,
-      trustedKeys: [this.#identity!.publicKey]
+      trustedKeys: [this.#identity!.publicKey],
+      chain: this.#chainState!.documents
+    });
+  }
+
+  /**
+   * Revoke earlier documents of this chain
+   * Revocation takes effect at the revocation document's logical time
+   */
+  async revokeDocuments(ids: string[], reason?: string): Promise<Document> {
+    this.assertInitialized();
+
+    const known = new Set(this.#chainState!.documents.map(doc => doc.id));
+    const missing = ids.filter(id => !known.has(id));
+
+    if (ids.length === 0 || missing.length > 0) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'Revocation targets must be documents of this chain',
+        { missing }
+      );
+    }
+
+    const payload: DocumentPayload = { targets: [...ids] };
+    if (reason !== undefined) {
+      payload['reason'] = reason;
+    }
+
+    return this.createDocument(DOCUMENT_TYPES.REVOCATION, payload);
+  }
+
+  /**
+   * Delegate signing of the given document types to a device key
+   * validFrom defaults to the logical time after the delegation document
+   */
+  async delegate(
+    delegatePublicKey: Uint8Array,
+    scope: Omit<DelegationScope, 'validFrom'> & { validFrom?: number }
+  ): Promise<Document> {
+    this.assertInitialized();
+
+    return this.#enqueue(() => {
+      const payload = DelegationSet.payload(delegatePublicKey, {
+        ...scope,
+        validFrom: scope.validFrom ?? this.#clock!.current + 2
+      });
+
+      return this.#createDocument(DOCUMENT_TYPES.DELEGATION, payload, {});
     });
   }
 
+  /**
+   * Rotate signing key
+   * Appends a key-rotation document signed by the current key that
+   * introduces the next key; the chain ID is unchanged
+   */
+  async rotateKey(next: { publicKey: Uint8Array; privateKey: Uint8Array }): Promise<Document> {
+    this.assertInitialized();
+    this.assertUnlocked();
+    await this.assertKeyPair(next);
+
+    // Queued as one step so no document is signed with the retired key after it
+    return this.#enqueue(async () => {
+      const doc = await this.#createDocument(
+        DOCUMENT_TYPES.KEY_ROTATION,
+        KeyHistory.rotationPayload(this.#signingPublicKey!, next.publicKey),
+        {}
+      );
+
+      this.#replaceSigningKey(next);
+      return doc;
+    });
+  }
+
+  /**
+   * Set signing key after restoring a chain with rotations
+   * Key MUST be the current key according to the chain's rotation history
+   */
+  async setSigningKey(keyPair: { publicKey: Uint8Array; privateKey: Uint8Array }): Promise<void> {
+    this.assertInitialized();
+    this.assertUnlocked();
+    await this.assertKeyPair(keyPair);
+    await this.assertCurrentKey(keyPair.publicKey);
+
+    this.#replaceSigningKey(keyPair);
+  }
+
+  /**
+   * Set external signer after restoring a chain with rotations
+   * Signer MUST hold the current key according to the chain's rotation history
+   */
+  async setSigner(signer: Signer): Promise<void> {
+    this.assertInitialized();
+    this.assertUnlocked();
+
+    const publicKey = signer.getPublicKey();
+    await this.assertCurrentKey(publicKey);
+
+    this.#replaceSigner(signer, publicKey, null);
+  }
+
+  /**
+   * Get public key that signs new documents
+   */
+  getSigningPublicKey(): Uint8Array {
+    this.assertInitialized();
+    return this.#signingPublicKey!;
+  }
+
+  /**
+   * Check a delegation on this chain lets the device key sign the document
+   * @throws NewZoneCoreError DELEGATION_DENIED
+   */
+  async #assertDelegated(doc: Document): Promise<void> {
+    const chain = this.#chainState!.documents;
+    const history = await KeyHistory.fromChain(this.#identity!.publicKey, chain);
+    const reasons = (await DelegationSet.fromChain([history], chain)).delegations
+      .filter(delegation => constantTimeEqual(delegation.delegatePublicKey, this.#signingPublicKey!))
+      .map(delegation => DelegationSet.check(delegation, doc));
+
+    if (!reasons.includes(null)) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.DELEGATION_DENIED,
+        reasons[0] ?? 'No delegation on this chain covers the device key',
+        { type: doc.type, logicalTime: doc.logical_time }
+      );
+    }
+  }
+
+  /**
+   * Check key is the chain's current signing key
+   */
+  private async assertCurrentKey(publicKey: Uint8Array): Promise<void> {
+    const history = await KeyHistory.fromChain(
+      this.#identity!.publicKey,
+      this.#chainState!.documents
+    );
+
+    if (!constantTimeEqual(history.currentKey, publicKey)) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.INVALID_KEY,
+        'Key is not the current signing key of this chain'
+      );
+    }
+  }
+
+  /**
+   * Check key pair shape and that private key matches public key
+   */
+  private async assertKeyPair(keyPair: { publicKey: Uint8Array; privateKey: Uint8Array }): Promise<void> {
+    if (
+      keyPair.publicKey.length !== KEY_LENGTHS.PUBLIC_KEY ||
+      keyPair.privateKey.length !== KEY_LENGTHS.PRIVATE_KEY ||
+      !constantTimeEqual(await Ed25519.getPublicKey(keyPair.privateKey), keyPair.publicKey)
+    ) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.INVALID_KEY,
+        'Private key does not match public key'
+      );
+    }
+  }
+
+  /**
+   * Swap to a local signing key
+   */
+  #replaceSigningKey(keyPair: { publicKey: Uint8Array; privateKey: Uint8Array }): void {
+    const privateKey = keyPair.privateKey.slice();
+    const signer = new LocalSigner({ publicKey: keyPair.publicKey, privateKey });
+    this.#replaceSigner(signer, signer.getPublicKey(), privateKey);
+  }
+
+  /**
+   * Swap signer, zeroizing the previous local rotated key (never the root key)
+   */
+  #replaceSigner(signer: Signer, publicKey: Uint8Array, privateKey: Uint8Array | null): void {
+    if (this.#signingKey) {
+      zeroize(this.#signingKey);
+    }
+
+    this.#signer = signer;
+    this.#signingPublicKey = publicKey.slice();
+    this.#signingKey = privateKey;
+  }
+
+  /**
+   * In-process private keys, in sealing order
+   */
+  #localKeys(): Uint8Array[] {
+    return [this.#rootKey, this.#signingKey].filter((key): key is Uint8Array => key !== null);
+  }
+
   /**
    * Get current chain state
    * Core API: deterministic snapshot
@@ -220,17 +917,55 @@ export class NewZoneCore implements NewZoneCoreInstance {
     // Mark detected at current logical time
     return forks.map(fork => ({
       ...fork,
-      detectedAt: this.#clock!.current,
-      resolved: false
+      detectedAt: this.#clock!.current
     }));
   }
 
+  /**
+   * Resolve a fork with a signed merge document
+   * The merge joins the heads of every conflicting branch, kept branch first,
+   * and lists all conflicting documents. Applications decide which branch to
+   * keep; core only records the decision.
+   * @throws NewZoneCoreError VALIDATION_FAILED if the fork is unknown or already resolved
+   */
+  async resolveFork(fork: ForkInfo, options: ForkResolutionOptions): Promise<Document> {
+    return this.#enqueue(() => {
+      this.assertInitialized();
+
+      const current = this.#chainState!.forks.find(f => f.parentHash === fork.parentHash);
+      if (!current) {
+        throw new NewZoneCoreError(
+          ERROR_CODES.VALIDATION_FAILED,
+          'Fork not found in this chain',
+          { parentHash: fork.parentHash }
+        );
+      }
+
+      if (current.resolved) {
+        throw new NewZoneCoreError(
+          ERROR_CODES.VALIDATION_FAILED,
+          'Fork already resolved',
+          { parentHash: current.parentHash, resolution: current.resolution }
+        );
+      }
+
+      const payload = ForkDetector.mergePayload(current, options.keep, options.resolution);
+      const branches = [options.keep, ...current.documents.filter(id => id !== options.keep)];
+
+      return this.#createDocument(DOCUMENT_TYPES.MERGE, payload, {}, () => {
+        const documents = this.#chainState!.documents;
+        return [...new Set(branches.flatMap(id => ChainDag.headsFrom(documents, id)))];
+      });
+    });
+  }
+
   /**
    * Export identity (for backup)
    * Returns mnemonic only - no other state
    */
   exportIdentity(): { mnemonic: string; chainId: string } {
     this.assertInitialized();
+    this.assertUnlocked();
     
     if (!this.#mnemonic) {
       throw new Error('Identity not available');
@@ -242,6 +977,20 @@ export class NewZoneCore implements NewZoneCoreInstance {
     };
   }
 
+  /**
+   * Export identity as a password-encrypted keystore
+   */
+  async exportKeystore(password: string, params?: ScryptParams): Promise<KeystoreFile> {
+    this.assertInitialized();
+    this.assertUnlocked();
+
+    if (!this.#mnemonic) {
+      throw new Error('Identity not available');
+    }
+
+    return Keystore.encrypt(this.#mnemonic, password, this.#identity!.chainId, params);
+  }
+
   /**
    * Export chain state (for persistence)
    */
@@ -258,11 +1007,36 @@ export class NewZoneCore implements NewZoneCoreInstance {
     
     const imported = ChainStateManager.import(
       state,
-      this.#chainState!.chainId
+      this.#chainState!.chainId,
+      this.#options.storage
     );
     
     this.#chainState = imported;
-    this.#clock = imported.clock;
+    this.#clock = new LogicalClock(imported.clock.current);
+  }
+
+  /**
+   * Import chain state, verifying every document against the identity key
+   * State is adopted only if the report is valid
+   */
+  async importStateVerified(state: Uint8Array): Promise<ChainImportReport> {
+    this.assertInitialized();
+
+    return this.#enqueue(async () => {
+      const report = await ChainStateManager.importVerified(
+        state,
+        this.#chainState!.chainId,
+        this.#identity!.publicKey,
+        this.#options.storage
+      );
+
+      if (report.valid) {
+        this.#chainState = report.manager;
+        this.#clock = new LogicalClock(report.manager.clock.current);
+      }
+
+      return report;
+    });
   }
 
   /**
@@ -288,11 +1062,186 @@ export class NewZoneCore implements NewZoneCoreInstance {
     return this.#chainState!.chainId;
   }
 
+  /**
+   * Set secret that unlocks a locked core
+   * Only an X25519 public key derived from it is kept
+   */
+  setLockSecret(secret: string, params?: ScryptParams): void {
+    this.assertInitialized();
+    this.assertUnlocked();
+    this.#lock = KeyLock.fromSecret(secret, params);
+  }
+
+  /**
+   * Lock: seal private keys and mnemonic, zeroize plaintext
+   * Read-only calls keep working; signing throws CORE_LOCKED
+   */
+  async lock(): Promise<void> {
+    this.assertInitialized();
+
+    if (!this.#lock) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'No lock secret set (see setLockSecret)'
+      );
+    }
+    if (this.#locked) {
+      await this.#sealing;
+      return;
+    }
+
+    // Refuse new signatures before the async seal
+    this.#locked = true;
+    this.#clearAutoLockTimer();
+
+    this.#sealing = this.#seal(this.#lock);
+    try {
+      await this.#sealing;
+    } finally {
+      this.#sealing = null;
+    }
+  }
+
+  async #seal(lock: KeyLock): Promise<void> {
+    const entropy = this.#mnemonic ? Mnemonic.toEntropy(this.#mnemonic) : new Uint8Array(0);
+    const plaintext = mergeArrays(...this.#localKeys(), entropy);
+
+    try {
+      this.#sealed = await lock.seal(plaintext);
+    } catch (e) {
+      this.#locked = false;
+      throw e;
+    } finally {
+      zeroize(plaintext);
+      zeroize(entropy);
+    }
+
+    this.#localKeys().forEach(key => zeroize(key));
+    this.#mnemonic = undefined;
+  }
+
+  /**
+   * Unlock: restore key material into the original buffers
+   * @throws NewZoneCoreError WRONG_PASSWORD
+   */
+  async unlock(secret: string): Promise<void> {
+    this.assertInitialized();
+    await this.#sealing;
+    if (!this.#locked || !this.#lock || !this.#sealed) return;
+
+    const plaintext = await this.#lock.open(secret, this.#sealed);
+
+    try {
+      let offset = 0;
+      for (const key of this.#localKeys()) {
+        key.set(plaintext.subarray(offset, offset + key.length));
+        offset += key.length;
+      }
+
+      const entropy = plaintext.subarray(offset);
+      this.#mnemonic = entropy.length > 0 ? Mnemonic.fromEntropy(entropy) : undefined;
+    } finally {
+      zeroize(plaintext);
+    }
+
+    this.#sealed = null;
+    this.#locked = false;
+    this.#signatures = 0;
+    this.#armAutoLockTimer();
+  }
+
+  /**
+   * Whether the core is locked
+   */
+  isLocked(): boolean {
+    return this.#locked;
+  }
+
+  /**
+   * Lock automatically after N signatures and/or an idle period
+   * Pass null to disable
+   */
+  setAutoLock(options: AutoLockOptions | null): void {
+    this.assertInitialized();
+
+    if (options && !this.#lock) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'No lock secret set (see setLockSecret)'
+      );
+    }
+
+    this.#autoLock = options;
+    this.#signatures = 0;
+    this.#armAutoLockTimer();
+  }
+
+  #recordSignature(count = 1): void {
+    this.#signatures += count;
+
+    const limit = this.#autoLock?.afterSignatures;
+    if (limit !== undefined && this.#signatures >= limit) {
+      this.#autoLockNow();
+      return;
+    }
+
+    this.#armAutoLockTimer();
+  }
+
+  #armAutoLockTimer(): void {
+    this.#clearAutoLockTimer();
+
+    const idleMs = this.#autoLock?.idleMs;
+    if (idleMs === undefined || this.#locked) return;
+
+    this.#autoLockTimer = setTimeout(() => this.#autoLockNow(), idleMs);
+    // Do not keep Node.js processes alive for the timer
+    (this.#autoLockTimer as { unref?: () => void }).unref?.();
+  }
+
+  #clearAutoLockTimer(): void {
+    if (this.#autoLockTimer !== null) {
+      clearTimeout(this.#autoLockTimer);
+      this.#autoLockTimer = null;
+    }
+  }
+
+  #autoLockNow(): void {
+    if (!this.#identity) return;
+    this.lock().catch(() => {
+      // Sealing failed; the core stays unlocked
+    });
+  }
+
+  /**
+   * Check core holds a signer (not watch-only)
+   */
+  private assertCanSign(): void {
+    if (this.#signer instanceof WatchOnlySigner) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.WATCH_ONLY,
+        'Watch-only core cannot sign; use a signing request'
+      );
+    }
+  }
+
+  /**
+   * Check not locked
+   */
+  private assertUnlocked(): void {
+    if (this.#locked) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.CORE_LOCKED,
+        'NewZoneCore is locked'
+      );
+    }
+  }
+
   /**
    * Check if initialized
    */
   private assertInitialized(): void {
-    if (!this.#identity || !this.#chainState || !this.#clock || !this.#validator) {
+    if (!this.#identity || !this.#signer || !this.#chainState || !this.#clock || !this.#validator) {
       throw new Error('NewZoneCore instance not properly initialized');
     }
   }
@@ -302,10 +1251,18 @@ export class NewZoneCore implements NewZoneCoreInstance {
    * Zeroizes private key material
    */
   destroy(): void {
-    if (this.#identity) {
-      zeroize(this.#identity.privateKey);
-      this.#identity = null;
-    }
+    this.#clearAutoLockTimer();
+    this.#prepared.clear();
+    this.#autoLock = null;
+    this.#sealed = null;
+    this.#lock = null;
+
+    this.#localKeys().forEach(key => zeroize(key));
+    this.#rootKey = null;
+    this.#signingKey = null;
+    this.#signer = null;
+    this.#signingPublicKey = null;
+    this.#identity = null;
     
     this.#chainState = null;
     this.#clock = null;
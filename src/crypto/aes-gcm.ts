@@ -0,0 +1,79 @@
+/**
+ * AES-256-GCM authenticated encryption (WebCrypto)
+ * Used for data at rest; not part of document signing suites
+ */
+
+import { crypto } from '@noble/hashes/crypto';
+import { NewZoneCoreError } from '../types.js';
+import { ERROR_CODES } from '../constants.js';
+
+export class AesGcm {
+  static readonly KEY_BYTES = 32;
+  static readonly NONCE_BYTES = 12;
+
+  /**
+   * Encrypt; output includes the 16-byte tag
+   */
+  static async encrypt(
+    key: Uint8Array,
+    nonce: Uint8Array,
+    plaintext: Uint8Array,
+    aad: Uint8Array = new Uint8Array(0)
+  ): Promise<Uint8Array> {
+    const subtle = this.subtle();
+    const ciphertext = await subtle.encrypt(
+      { name: 'AES-GCM', iv: nonce as BufferSource, additionalData: aad as BufferSource },
+      await this.importKey(subtle, key),
+      plaintext as BufferSource
+    );
+    return new Uint8Array(ciphertext);
+  }
+
+  /**
+   * Decrypt and authenticate
+   * @throws NewZoneCoreError if authentication fails
+   */
+  static async decrypt(
+    key: Uint8Array,
+    nonce: Uint8Array,
+    ciphertext: Uint8Array,
+    aad: Uint8Array = new Uint8Array(0)
+  ): Promise<Uint8Array> {
+    const subtle = this.subtle();
+    try {
+      const plaintext = await subtle.decrypt(
+        { name: 'AES-GCM', iv: nonce as BufferSource, additionalData: aad as BufferSource },
+        await this.importKey(subtle, key),
+        ciphertext as BufferSource
+      );
+      return new Uint8Array(plaintext);
+    } catch (e) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'AES-GCM authentication failed',
+        { error: e }
+      );
+    }
+  }
+
+  private static importKey(subtle: SubtleCrypto, key: Uint8Array): Promise<CryptoKey> {
+    if (key.length !== this.KEY_BYTES) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.INVALID_KEY,
+        `AES-256-GCM key must be ${this.KEY_BYTES} bytes`
+      );
+    }
+    return subtle.importKey('raw', key as BufferSource, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  }
+
+  private static subtle(): SubtleCrypto {
+    const subtle = (crypto as Crypto | undefined)?.subtle;
+    if (!subtle) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.INVALID_KEY,
+        'WebCrypto is not available in this environment'
+      );
+    }
+    return subtle;
+  }
+}
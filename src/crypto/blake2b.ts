@@ -78,21 +78,21 @@ export class Blake2b {
 
   /**
    * Compute document hash for integrity verification
-   * Uses same algorithm as IdentityDerivation.deriveDocumentId()
+   * Same algorithm as IdentityDerivation.deriveDocumentId() (nzcore-crypto-01)
+   * @deprecated Use IdentityDerivation.computeDocumentId(), which honours crypto_suite
    */
   static computeDocumentHash(
     chainId: string,
     parentHash: string,
     logicalTime: number,
-    payload?: Record<string, unknown>
+    _payload?: Record<string, unknown>
   ): string {
     const domain = `nzcore-${CRYPTO_SUITE}-document`;
 
     const inputs = mergeArrays(
       new TextEncoder().encode(chainId),
       new TextEncoder().encode(parentHash),
-      new Uint8Array(new Uint32Array([logicalTime]).buffer),
-      new TextEncoder().encode(JSON.stringify(payload || {}))
+      new Uint8Array(new Uint32Array([logicalTime]).buffer)
     );
 
     const hash = this.hashWithDomain(domain, inputs);
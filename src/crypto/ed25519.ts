@@ -40,6 +40,21 @@ export class Ed25519 {
     }
   }
 
+  /**
+   * Derive public key from private key
+   */
+  static async getPublicKey(privateKey: Uint8Array): Promise<Uint8Array> {
+    try {
+      return await ed.getPublicKey(privateKey);
+    } catch (e) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.INVALID_KEY,
+        'Failed to derive Ed25519 public key',
+        { error: e }
+      );
+    }
+  }
+
   /**
    * Sign data with Ed25519
    * @noble/ed25519 guarantees 64-byte signatures
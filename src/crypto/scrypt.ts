@@ -6,7 +6,7 @@
 
 import { scrypt } from '@noble/hashes/scrypt';
 import { SCRYPT_PARAMS, ERROR_CODES } from '../constants.js';
-import { NewZoneCoreError } from '../types.js';
+import { NewZoneCoreError, ScryptParams } from '../types.js';
 import { zeroize } from '../utils/zeroize.js';
 import { mergeArrays } from '../utils/encoding.js';
 
@@ -14,17 +14,19 @@ export class Scrypt {
   /**
    * Derive key using scrypt
    * Memory-hard KDF for master seed derivation
+   * Cost parameters default to the suite's; override only for recorded formats (e.g. keystore)
    */
   static derive(
     password: Uint8Array,
     salt: Uint8Array,
-    dkLen: number = SCRYPT_PARAMS.dkLen
+    dkLen: number = SCRYPT_PARAMS.dkLen,
+    params: ScryptParams = SCRYPT_PARAMS
   ): Uint8Array {
     try {
       const key = scrypt(password, salt, {
-        N: SCRYPT_PARAMS.N,
-        r: SCRYPT_PARAMS.r,
-        p: SCRYPT_PARAMS.p,
+        N: params.N,
+        r: params.r,
+        p: params.p,
         dkLen
       });
       
@@ -0,0 +1,92 @@
+/**
+ * Crypto Suite Registry
+ * Suites are immutable once defined
+ * Verification MUST support historical suites
+ */
+
+import { Blake2b } from './blake2b.js';
+import { Ed25519 } from './ed25519.js';
+import { Scrypt } from './scrypt.js';
+import { IdentityDerivation } from '../identity/derivation.js';
+import { CryptoSuite, CryptoSuiteId, NewZoneCoreError } from '../types.js';
+import { CRYPTO_SUITE, CRYPTO_SUITE_V2, ERROR_CODES } from '../constants.js';
+
+export class CryptoSuiteRegistry {
+  static #suites: Map<CryptoSuiteId, CryptoSuite> = new Map();
+
+  /**
+   * Register a suite
+   * @throws NewZoneCoreError if the identifier is already defined
+   */
+  static register(suite: CryptoSuite): void {
+    if (this.#suites.has(suite.id)) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.CRYPTO_SUITE_MISMATCH,
+        `Crypto suite already defined: ${suite.id}`
+      );
+    }
+
+    this.#suites.set(suite.id, Object.freeze({ ...suite }));
+  }
+
+  /**
+   * Get suite by identifier
+   * @throws NewZoneCoreError if the suite is unknown
+   */
+  static get(id: CryptoSuiteId): CryptoSuite {
+    const suite = this.#suites.get(id);
+
+    if (!suite) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.CRYPTO_SUITE_MISMATCH,
+        `Unsupported crypto suite: ${id}`
+      );
+    }
+
+    return suite;
+  }
+
+  /**
+   * Check if suite is registered
+   */
+  static has(id: CryptoSuiteId): boolean {
+    return this.#suites.has(id);
+  }
+
+  /**
+   * List registered suite identifiers
+   */
+  static list(): CryptoSuiteId[] {
+    return Array.from(this.#suites.keys());
+  }
+}
+
+/**
+ * nzcore-crypto-01
+ * BLAKE2b-256, Ed25519, scrypt; chain-state document IDs
+ */
+CryptoSuiteRegistry.register({
+  id: CRYPTO_SUITE,
+  hash: data => Blake2b.hash(data),
+  sign: (data, privateKey) => Ed25519.sign(data, privateKey),
+  verify: (signature, data, publicKey) => Ed25519.verify(signature, data, publicKey),
+  deriveDocumentId: doc => IdentityDerivation.deriveDocumentId(
+    doc.chain_id ?? '',
+    doc.parent_hash ?? '',
+    doc.logical_time ?? 0
+  ),
+  deriveKey: (seed, salt) => Scrypt.derive(seed, salt)
+});
+
+/**
+ * nzcore-crypto-02
+ * Same primitives as nzcore-crypto-01; content-binding document IDs
+ */
+CryptoSuiteRegistry.register({
+  id: CRYPTO_SUITE_V2,
+  hash: data => Blake2b.hash(data),
+  sign: (data, privateKey) => Ed25519.sign(data, privateKey),
+  verify: (signature, data, publicKey) => Ed25519.verify(signature, data, publicKey),
+  deriveDocumentId: doc => IdentityDerivation.deriveContentDocumentId(doc),
+  deriveKey: (seed, salt) => Scrypt.derive(seed, salt)
+});
@@ -0,0 +1,54 @@
+/**
+ * X25519 key agreement
+ * nzcore-crypto-01 suite
+ */
+
+import { curve25519 } from '@noble/ed25519';
+import { NewZoneCoreError } from '../types.js';
+import { ERROR_CODES, KEY_LENGTHS } from '../constants.js';
+
+export class X25519 {
+  /**
+   * Get public key from private key (scalar is clamped per RFC 7748)
+   */
+  static getPublicKey(privateKey: Uint8Array): Uint8Array {
+    this.assertKey(privateKey, 'private');
+
+    try {
+      return curve25519.scalarMultBase(privateKey);
+    } catch (e) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.INVALID_KEY,
+        'Failed to derive X25519 public key',
+        { error: e }
+      );
+    }
+  }
+
+  /**
+   * Compute shared secret
+   */
+  static sharedSecret(privateKey: Uint8Array, publicKey: Uint8Array): Uint8Array {
+    this.assertKey(privateKey, 'private');
+    this.assertKey(publicKey, 'public');
+
+    try {
+      return curve25519.scalarMult(privateKey, publicKey);
+    } catch (e) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.INVALID_KEY,
+        'X25519 key agreement failed',
+        { error: e }
+      );
+    }
+  }
+
+  private static assertKey(key: Uint8Array, kind: string): void {
+    if (key.length !== KEY_LENGTHS.PRIVATE_KEY) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.INVALID_KEY,
+        `X25519 ${kind} key must be ${KEY_LENGTHS.PRIVATE_KEY} bytes`
+      );
+    }
+  }
+}
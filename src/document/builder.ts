@@ -4,16 +4,18 @@
  */
 
 import { CanonicalJSON } from './canonical.js';
-import { Document, DocumentMetadata, DocumentPayload, NewZoneCoreError } from '../types.js';
-import { DOCUMENT_VERSION, CRYPTO_SUITE, ERROR_CODES } from '../constants.js';
+import { Document, DocumentMetadata, DocumentPayload, CryptoSuiteId, NewZoneCoreError } from '../types.js';
+import { DOCUMENT_VERSION, DEFAULT_CRYPTO_SUITE, ERROR_CODES } from '../constants.js';
+import { CryptoSuiteRegistry } from '../crypto/suite.js';
 import { IdentityDerivation } from '../identity/derivation.js';
+import { ChainDag } from '../chain/dag.js';
 
 export class DocumentBuilder {
   private doc: Partial<Document> = {};
 
   constructor() {
     this.doc.version = DOCUMENT_VERSION;
-    this.doc.crypto_suite = CRYPTO_SUITE;
+    this.doc.crypto_suite = DEFAULT_CRYPTO_SUITE;
     this.doc.created_at = new Date().toISOString(); // informational only
   }
 
@@ -57,6 +59,17 @@ export class DocumentBuilder {
     return this;
   }
 
+  /**
+   * Set ordered parents of a merge; the first becomes parent_hash
+   */
+  setParentHashes(hashes: string[]): this {
+    this.doc.parent_hashes = [...hashes];
+    if (hashes[0] !== undefined) {
+      this.doc.parent_hash = hashes[0];
+    }
+    return this;
+  }
+
   /**
    * Set logical time
    */
@@ -68,11 +81,19 @@ export class DocumentBuilder {
   /**
    * Set crypto suite
    */
-  setCryptoSuite(suite: typeof CRYPTO_SUITE): this {
+  setCryptoSuite(suite: CryptoSuiteId): this {
     this.doc.crypto_suite = suite;
     return this;
   }
 
+  /**
+   * Set expiration (logical time, inclusive)
+   */
+  setValidUntil(time: number): this {
+    this.doc.valid_until = time;
+    return this;
+  }
+
   /**
    * Set creation time (informational only)
    */
@@ -117,13 +138,9 @@ export class DocumentBuilder {
   async build(): Promise<Document> {
     this.validate();
     
-    // Generate ID if not set
-    if (!this.doc.id && this.doc.chain_id && this.doc.parent_hash && this.doc.logical_time) {
-      this.doc.id = IdentityDerivation.deriveDocumentId(
-        this.doc.chain_id,
-        this.doc.parent_hash,
-        this.doc.logical_time
-      );
+    // Generate ID if not set (scheme depends on crypto suite)
+    if (!this.doc.id) {
+      this.doc.id = IdentityDerivation.computeDocumentId(this.doc);
     }
     
     // Ensure canonical form
@@ -161,8 +178,23 @@ export class DocumentBuilder {
       );
     }
 
+    // Validate merge parents
+    const parentsError = ChainDag.checkParents(this.doc as Document);
+    if (parentsError) {
+      throw new NewZoneCoreError(ERROR_CODES.VALIDATION_FAILED, parentsError);
+    }
+
+    // Validate expiration
+    if (this.doc.valid_until !== undefined &&
+        (!Number.isInteger(this.doc.valid_until) || this.doc.valid_until < this.doc.logical_time)) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.LOGICAL_TIME_VIOLATION,
+        'valid_until must be an integer logical time not before logical_time'
+      );
+    }
+
     // Validate crypto suite
-    if (this.doc.crypto_suite !== CRYPTO_SUITE) {
+    if (!CryptoSuiteRegistry.has(this.doc.crypto_suite as CryptoSuiteId)) {
       throw new NewZoneCoreError(
         ERROR_CODES.CRYPTO_SUITE_MISMATCH,
         `Invalid crypto suite: ${this.doc.crypto_suite}`
@@ -0,0 +1,100 @@
+/**
+ * Signing Request
+ * Compact text encoding for two-phase (air-gapped) signing:
+ *
+ *   nzreq1:<base64url canonical JSON>   unsigned document (online → offline)
+ *   nzdoc1:<base64url canonical JSON>   signed document   (offline → online)
+ *
+ * Suitable for QR codes or file transfer.
+ */
+
+import { CanonicalJSON } from './canonical.js';
+import { fromBase64URL, toBase64URL } from '../utils/encoding.js';
+import { Document, NewZoneCoreError } from '../types.js';
+import { ERROR_CODES } from '../constants.js';
+
+export class SigningRequest {
+  static readonly REQUEST_PREFIX = 'nzreq1:';
+  static readonly RESPONSE_PREFIX = 'nzdoc1:';
+
+  /**
+   * Encode unsigned document as a request
+   */
+  static encode(document: Document): string {
+    if (document.signature !== undefined) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'Signing request must not carry a signature'
+      );
+    }
+    return this.REQUEST_PREFIX + this.#pack(document);
+  }
+
+  /**
+   * Decode request into the unsigned document
+   * @throws NewZoneCoreError VALIDATION_FAILED or NON_CANONICAL_JSON
+   */
+  static decode(encoded: string): Document {
+    const doc = this.#unpack(encoded, this.REQUEST_PREFIX);
+    if (doc.signature !== undefined) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'Signing request must not carry a signature'
+      );
+    }
+    return doc;
+  }
+
+  /**
+   * Encode signed document as a response
+   */
+  static encodeResponse(document: Document): string {
+    if (typeof document.signature !== 'string') {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'Signing response must carry a signature'
+      );
+    }
+    return this.RESPONSE_PREFIX + this.#pack(document);
+  }
+
+  /**
+   * Decode response into the signed document
+   */
+  static decodeResponse(encoded: string): Document {
+    const doc = this.#unpack(encoded, this.RESPONSE_PREFIX);
+    if (typeof doc.signature !== 'string') {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'Signing response must carry a signature'
+      );
+    }
+    return doc;
+  }
+
+  static #pack(document: Document): string {
+    return toBase64URL(new TextEncoder().encode(CanonicalJSON.serialize(document)));
+  }
+
+  static #unpack(encoded: string, prefix: string): Document {
+    if (typeof encoded !== 'string' || !encoded.startsWith(prefix)) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        `Expected ${prefix} encoding`
+      );
+    }
+
+    let json: string;
+    try {
+      json = new TextDecoder('utf-8', { fatal: true }).decode(fromBase64URL(encoded.slice(prefix.length)));
+    } catch (e) {
+      throw new NewZoneCoreError(ERROR_CODES.VALIDATION_FAILED, 'Invalid base64url payload', { error: e });
+    }
+
+    const doc = CanonicalJSON.parse(json) as Document;
+    if (typeof doc !== 'object' || doc === null || Array.isArray(doc)) {
+      throw new NewZoneCoreError(ERROR_CODES.VALIDATION_FAILED, 'Encoded value is not a document');
+    }
+    return doc;
+  }
+}
@@ -1,13 +1,17 @@
 /**
  * Document Validator
  * Trust layers: Structural → Cryptographic → Policy
- * Final trust = AND of all layers
+ * Final trust = AND of all layers, and not expired or revoked
  */
 
 import { CanonicalJSON } from './canonical.js';
-import { Ed25519 } from '../crypto/ed25519.js';
+import { CryptoSuiteRegistry } from '../crypto/suite.js';
+import { KeyHistory } from '../chain/keys.js';
+import { DelegationSet } from '../chain/delegation.js';
+import { ChainDag } from '../chain/dag.js';
+import { LogicalClock } from '../identity/logical-time.js';
 import { Document, ValidationResult, ValidationContext } from '../types.js';
-import { CRYPTO_SUITE } from '../constants.js';
+import { DOCUMENT_TYPES, ERROR_CODES } from '../constants.js';
 import { fromHex } from '../utils/encoding.js';
 
 export class DocumentValidator {
@@ -43,14 +47,12 @@ export class DocumentValidator {
         return this.finalize(result);
       }
 
+      // Expiration and revocation (logical time only)
+      await this.validateLifecycle(document, context, result);
+
       // Layer 3: Policy validation (implementation-defined, out of Core scope)
       result.policy_valid = this.validatePolicy(document, context, result);
       
-      // Final trust = AND of all layers
-      result.final = result.structural_valid && 
-                     result.cryptographic_valid && 
-                     result.policy_valid;
-      
       return this.finalize(result);
     } catch (e) {
       result.errors?.push(e instanceof Error ? e.message : String(e));
@@ -87,9 +89,11 @@ export class DocumentValidator {
       errors.push(`logical_time MUST be >= 1, got ${doc.logical_time}`);
     }
 
-    // Check crypto suite
-    if (doc.crypto_suite !== CRYPTO_SUITE) {
-      errors.push(`crypto_suite MUST be ${CRYPTO_SUITE}, got ${doc.crypto_suite}`);
+    // Check crypto suite (historical suites remain verifiable)
+    if (!CryptoSuiteRegistry.has(doc.crypto_suite)) {
+      errors.push(
+        `crypto_suite MUST be one of ${CryptoSuiteRegistry.list().join(', ')}, got ${doc.crypto_suite}`
+      );
     }
 
     // Check version
@@ -107,6 +111,31 @@ export class DocumentValidator {
       errors.push('parent_hash must be 64 character hex string');
     }
 
+    // Check merge parents
+    const parentsError = ChainDag.checkParents(doc);
+    if (parentsError) {
+      errors.push(parentsError);
+    }
+
+    // Check expiration (optional)
+    if (doc.valid_until !== undefined) {
+      if (typeof doc.valid_until !== 'number' || !Number.isInteger(doc.valid_until)) {
+        errors.push('valid_until must be an integer logical time');
+      } else if (doc.valid_until < doc.logical_time) {
+        errors.push(`valid_until (${doc.valid_until}) MUST be >= logical_time (${doc.logical_time})`);
+      }
+    }
+
+    // Check revocation targets
+    if (doc.type === DOCUMENT_TYPES.REVOCATION && this.revocationTargets(doc).length === 0) {
+      errors.push('Revocation payload.targets MUST be a non-empty array of document IDs');
+    }
+
+    // Check delegation scope
+    if (doc.type === DOCUMENT_TYPES.DELEGATION && !DelegationSet.parse(doc.payload)) {
+      errors.push('Delegation payload MUST name a delegate key, non-reserved allowed_types and a valid_from..valid_until window');
+    }
+
     if (errors.length > 0) {
       result.errors = [...(result.errors || []), ...errors];
       return false;
@@ -128,6 +157,9 @@ export class DocumentValidator {
     const errors: string[] = [];
 
     try {
+      // Dispatch on the document's declared suite
+      const suite = CryptoSuiteRegistry.get(doc.crypto_suite);
+
       // MUST verify canonical JSON before signature
       const docWithoutSig = { ...doc };
       delete (docWithoutSig as { signature?: unknown }).signature;
@@ -156,11 +188,22 @@ export class DocumentValidator {
         return false;
       }
 
-      // Try each trusted key
+      // With chain context, each root key resolves to the key active at this logical time
+      const chain = context.chain;
+      const histories = chain
+        ? await Promise.all(trustedKeys.map(root => KeyHistory.fromChain(root, chain)))
+        : [];
+      const signingKeys = chain
+        ? histories
+          .map(history => history.resolve(doc.logical_time)?.publicKey)
+          .filter((key): key is Uint8Array => key !== undefined)
+        : trustedKeys;
+
+      // Try each candidate key
       let verified = false;
-      for (const key of trustedKeys) {
+      for (const key of signingKeys) {
         try {
-          const valid = await Ed25519.verify(signature, data, key);
+          const valid = await suite.verify(signature, data, key);
           if (valid) {
             verified = true;
             break;
@@ -170,8 +213,32 @@ export class DocumentValidator {
         }
       }
 
+      // Otherwise a delegate key authorized by the chain may have signed
+      if (!verified && chain) {
+        const denied = await this.verifyDelegated(doc, signature, data, histories, chain);
+        if (denied === null) {
+          verified = true;
+        } else if (denied !== undefined) {
+          result.codes = [...(result.codes || []), ERROR_CODES.DELEGATION_DENIED];
+          result.errors = [...(result.errors || []), denied];
+          return false;
+        }
+      }
+
       if (!verified) {
-        errors.push('Signature verification failed');
+        const retired = await this.findRetiredSigner(doc, signature, data, histories);
+        errors.push(
+          retired !== undefined
+            ? `Signed by key rotated out at logical time ${retired}`
+            : 'Signature verification failed'
+        );
+        result.errors = [...(result.errors || []), ...errors];
+        return false;
+      }
+
+      // Document ID MUST match the suite's ID scheme
+      if (suite.deriveDocumentId(doc) !== doc.id) {
+        errors.push('Document ID does not match its content');
         result.errors = [...(result.errors || []), ...errors];
         return false;
       }
@@ -194,6 +261,133 @@ export class DocumentValidator {
     }
   }
 
+  /**
+   * Verify signature against delegate keys in the chain
+   * Returns null if an authorizing delegation covers the document,
+   * the denial reason if only non-covering delegations match,
+   * undefined if no delegate key produced the signature
+   */
+  private async verifyDelegated(
+    doc: Document,
+    signature: Uint8Array,
+    data: Uint8Array,
+    histories: KeyHistory[],
+    chain: Document[]
+  ): Promise<string | null | undefined> {
+    const suite = CryptoSuiteRegistry.get(doc.crypto_suite);
+    const delegations = (await DelegationSet.fromChain(histories, chain)).delegations;
+    let denied: string | undefined;
+
+    for (const delegation of delegations) {
+      if (!(await suite.verify(signature, data, delegation.delegatePublicKey))) {
+        continue;
+      }
+
+      const reason = DelegationSet.check(delegation, doc);
+      if (reason === null) {
+        return null;
+      }
+      denied ??= reason;
+    }
+
+    return denied;
+  }
+
+  /**
+   * Find a rotated-out key that produced the signature
+   * Returns the logical time at which that key was retired
+   */
+  private async findRetiredSigner(
+    doc: Document,
+    signature: Uint8Array,
+    data: Uint8Array,
+    histories: KeyHistory[]
+  ): Promise<number | undefined> {
+    const suite = CryptoSuiteRegistry.get(doc.crypto_suite);
+
+    for (const history of histories) {
+      for (const epoch of history.epochs) {
+        if (epoch.validUntil === undefined || doc.logical_time <= epoch.validUntil) {
+          continue;
+        }
+        if (await suite.verify(signature, data, epoch.publicKey)) {
+          return epoch.validUntil;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Expiration and revocation
+   * Evaluated against context.currentTime; revocations come from context.chain
+   * and only count if they verify under the same trust context
+   */
+  private async validateLifecycle(
+    doc: Document,
+    context: ValidationContext,
+    result: ValidationResult
+  ): Promise<void> {
+    if (!context.currentTime || context.currentTime < 1) {
+      return;
+    }
+
+    const clock = new LogicalClock(context.currentTime);
+
+    result.expired = clock.isExpired(doc.valid_until);
+    if (result.expired) {
+      result.codes = [...(result.codes || []), ERROR_CODES.DOCUMENT_EXPIRED];
+      result.errors = [
+        ...(result.errors || []),
+        `Document expired at logical time ${doc.valid_until}`
+      ];
+    }
+
+    const revocations = (context.chain || []).filter(candidate =>
+      candidate.type === DOCUMENT_TYPES.REVOCATION &&
+      candidate.chain_id === doc.chain_id &&
+      candidate.logical_time > doc.logical_time &&
+      this.revocationTargets(candidate).includes(doc.id)
+    );
+
+    for (const revocation of revocations) {
+      if (!clock.isRevoked(revocation.logical_time)) {
+        continue;
+      }
+
+      // Revocation MUST itself be authentic
+      const scratch: ValidationResult = { ...result, errors: [], warnings: [] };
+      if (!this.validateStructural(revocation, scratch) ||
+          !(await this.validateCryptographic(revocation, context, scratch))) {
+        continue;
+      }
+
+      result.revoked = true;
+      result.codes = [...(result.codes || []), ERROR_CODES.DOCUMENT_REVOKED];
+      result.errors = [
+        ...(result.errors || []),
+        `Document revoked by ${revocation.id} at logical time ${revocation.logical_time}`
+      ];
+      break;
+    }
+  }
+
+  /**
+   * Document IDs targeted by a revocation document
+   */
+  private revocationTargets(doc: Document): string[] {
+    const targets = doc.payload?.['targets'];
+
+    if (!Array.isArray(targets) || targets.length === 0) {
+      return [];
+    }
+
+    return targets.every(t => typeof t === 'string' && /^[0-9a-f]{64}$/.test(t))
+      ? targets as string[]
+      : [];
+  }
+
   /**
    * Policy validation
    * Implementation-defined, out of Core scope
@@ -228,7 +422,9 @@ export class DocumentValidator {
   private finalize(result: ValidationResult): ValidationResult {
     result.final = result.structural_valid && 
                    result.cryptographic_valid && 
-                   result.policy_valid;
+                   result.policy_valid &&
+                   !result.expired &&
+                   !result.revoked;
     return result;
   }
 
@@ -249,28 +445,9 @@ export class DocumentValidator {
 
   /**
    * Validate document chain integrity
+   * Walks the DAG: every parent present (or genesis) and earlier than its child
    */
   validateChain(documents: Document[]): boolean {
-    // Sort by logical time
-    const sorted = [...documents].sort((a, b) => a.logical_time - b.logical_time);
-  
-    for (let i = 1; i < sorted.length; i++) {
-      const prev = sorted[i - 1];
-      const curr = sorted[i];
-    
-      if (!prev || !curr) return false;
-    
-      // Check hash chain
-      if (curr.parent_hash !== prev.id) {
-        return false;
-      }
-    
-      // Check time monotonicity
-      if (curr.logical_time <= prev.logical_time) {
-        return false;
-      }
-    }
-  
-    return true;
+    return documents.every(doc => ChainDag.checkParents(doc) === null) && ChainDag.verify(documents);
   }
 }
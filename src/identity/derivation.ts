@@ -10,8 +10,10 @@ import { Hkdf } from '../crypto/hkdf.js';
 import { Blake2b } from '../crypto/blake2b.js';
 import { zeroize } from '../utils/zeroize.js';
 import { toHex, mergeArrays } from '../utils/encoding.js';
-import { NewZoneCoreError } from '../types.js';
-import { KEY_LENGTHS, CRYPTO_SUITE, ERROR_CODES } from '../constants.js';
+import { CanonicalJSON } from '../document/canonical.js';
+import { Document, NewZoneCoreError } from '../types.js';
+import { CryptoSuiteRegistry } from '../crypto/suite.js';
+import { KEY_LENGTHS, CRYPTO_SUITE, CRYPTO_SUITE_V2, ERROR_CODES } from '../constants.js';
 
 export class IdentityDerivation {
   /**
@@ -85,8 +87,9 @@ export class IdentityDerivation {
   }
 
   /**
-   * Derive document ID
-   * Deterministic from chain state
+   * Derive document ID (nzcore-crypto-01)
+   * Deterministic from chain state; does not cover payload or type,
+   * and logical time is truncated to 32 bits
    */
   static deriveDocumentId(
     chainId: string,
@@ -105,8 +108,42 @@ export class IdentityDerivation {
     return toHex(hash.slice(0, KEY_LENGTHS.DOCUMENT_ID));
   }
 
+  /**
+   * Derive content-binding document ID (nzcore-crypto-02)
+   * Commits to the full canonical document minus id and signature;
+   * logical time is encoded as unsigned 64-bit big-endian
+   */
+  static deriveContentDocumentId(document: Partial<Document>): string {
+    const domain = `nzcore-${CRYPTO_SUITE_V2}-document`;
+
+    const content = { ...document };
+    delete content.id;
+    delete content.signature;
+
+    const time = new Uint8Array(8);
+    new DataView(time.buffer).setBigUint64(0, BigInt(document.logical_time ?? 0), false);
+
+    const inputs = mergeArrays(
+      new TextEncoder().encode(document.chain_id ?? ''),
+      new TextEncoder().encode(document.parent_hash ?? ''),
+      time,
+      new TextEncoder().encode(CanonicalJSON.serialize(content))
+    );
+
+    const hash = Blake2b.hashWithDomain(domain, inputs);
+    return toHex(hash.slice(0, KEY_LENGTHS.DOCUMENT_ID));
+  }
+
+  /**
+   * Compute document ID under the document's declared suite
+   */
+  static computeDocumentId(document: Partial<Document>): string {
+    return CryptoSuiteRegistry.get(document.crypto_suite ?? '').deriveDocumentId(document);
+  }
+
   /**
    * Derive subkey for specific purpose
+   * Raw key bytes only; see HDKeyDerivation for path-based key pairs
    */
   static deriveSubKey(
     rootKey: Uint8Array,
@@ -0,0 +1,147 @@
+/**
+ * Hierarchical key derivation
+ * SLIP-0010 style, hardened-only, from the BIP-39 seed:
+ *
+ *   master  = HMAC-SHA512("nzcore-hd-v1", seed)
+ *   child   = HMAC-SHA512(chainCode, 0x00 || key || ser32(index))
+ *   key     = I[0..32], chainCode = I[32..64]
+ *
+ * Path segments: m / (number' | name')*
+ * A named segment maps to 0x80000000 | (BLAKE2b-256("nzcore-hd-segment", name)[0..4] & 0x7fffffff).
+ * Each node yields an Ed25519 key pair (key used as private key) and
+ * an X25519 key pair (HMAC-SHA512(chainCode, "nzcore-hd-x25519" || key)[0..32]).
+ */
+
+import { hmac } from '@noble/hashes/hmac';
+import { sha512 } from '@noble/hashes/sha512';
+import { Mnemonic } from './mnemonic.js';
+import { Blake2b } from '../crypto/blake2b.js';
+import { Ed25519 } from '../crypto/ed25519.js';
+import { X25519 } from '../crypto/x25519.js';
+import { zeroize } from '../utils/zeroize.js';
+import { mergeArrays } from '../utils/encoding.js';
+import { NewZoneCoreError } from '../types.js';
+import { ERROR_CODES, KEY_LENGTHS } from '../constants.js';
+
+const MASTER_KEY = 'nzcore-hd-v1';
+const SEGMENT_DOMAIN = 'nzcore-hd-segment';
+const X25519_TAG = 'nzcore-hd-x25519';
+const HARDENED = 0x80000000;
+
+export interface HDKeyPair {
+  path: string;
+  ed25519: { publicKey: Uint8Array; privateKey: Uint8Array };
+  x25519: { publicKey: Uint8Array; privateKey: Uint8Array };
+}
+
+export class HDKeyDerivation {
+  /**
+   * Derive key pairs at path from mnemonic
+   */
+  static async fromMnemonic(mnemonic: string, path: string): Promise<HDKeyPair> {
+    const seed = Mnemonic.toSeed(mnemonic, '');
+    try {
+      return await this.fromSeed(seed, path);
+    } finally {
+      zeroize(seed);
+    }
+  }
+
+  /**
+   * Derive key pairs at path from BIP-39 seed
+   */
+  static async fromSeed(seed: Uint8Array, path: string): Promise<HDKeyPair> {
+    if (seed.length !== KEY_LENGTHS.SEED) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.INVALID_SEED,
+        `Seed must be ${KEY_LENGTHS.SEED} bytes`
+      );
+    }
+
+    const indices = this.parsePath(path);
+
+    let node = hmac(sha512, new TextEncoder().encode(MASTER_KEY), seed);
+    for (const index of indices) {
+      const next = this.child(node, index);
+      zeroize(node);
+      node = next;
+    }
+
+    const key = node.slice(0, 32);
+    const chainCode = node.subarray(32);
+    const x25519Material = hmac(sha512, chainCode, mergeArrays(new TextEncoder().encode(X25519_TAG), key));
+    const x25519Key = x25519Material.slice(0, 32);
+    zeroize(x25519Material);
+    zeroize(node);
+
+    return {
+      path,
+      ed25519: { publicKey: await Ed25519.getPublicKey(key), privateKey: key },
+      x25519: { publicKey: X25519.getPublicKey(x25519Key), privateKey: x25519Key }
+    };
+  }
+
+  /**
+   * Parse path into hardened child indices
+   * @throws NewZoneCoreError for malformed or non-hardened segments
+   */
+  static parsePath(path: string): number[] {
+    const segments = path.split('/');
+
+    if (segments[0] !== 'm') {
+      throw this.pathError(path, 'Path must start with m');
+    }
+
+    return segments.slice(1).map(segment => {
+      if (!segment.endsWith("'")) {
+        throw this.pathError(path, `Segment ${segment} must be hardened`);
+      }
+
+      const body = segment.slice(0, -1);
+
+      if (/^(0|[1-9][0-9]*)$/.test(body)) {
+        const index = Number(body);
+        if (index >= HARDENED) {
+          throw this.pathError(path, `Index ${body} out of range`);
+        }
+        return (index | HARDENED) >>> 0;
+      }
+
+      if (/^[a-z][a-z0-9-]*$/.test(body)) {
+        return this.segmentIndex(body);
+      }
+
+      throw this.pathError(path, `Invalid segment ${segment}`);
+    });
+  }
+
+  /**
+   * Hardened index for a named segment
+   */
+  static segmentIndex(name: string): number {
+    const hash = Blake2b.hashWithDomain(SEGMENT_DOMAIN, new TextEncoder().encode(name));
+    const value = new DataView(hash.buffer, hash.byteOffset, 4).getUint32(0, false);
+    return ((value & 0x7fffffff) | HARDENED) >>> 0;
+  }
+
+  /**
+   * Hardened child derivation
+   */
+  private static child(node: Uint8Array, index: number): Uint8Array {
+    const data = new Uint8Array(1 + 32 + 4);
+    data.set(node.subarray(0, 32), 1);
+    new DataView(data.buffer).setUint32(33, index, false);
+
+    const child = hmac(sha512, node.subarray(32), data);
+    zeroize(data);
+    return child;
+  }
+
+  private static pathError(path: string, message: string): NewZoneCoreError {
+    return new NewZoneCoreError(
+      ERROR_CODES.INVALID_DERIVATION_PATH,
+      message,
+      { path }
+    );
+  }
+}
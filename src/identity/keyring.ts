@@ -0,0 +1,221 @@
+/**
+ * Identity Keyring
+ * Several identities in one vault, each stored as a Keystore under the
+ * shared vault password. One identity is open at a time.
+ * lock() zeroizes the vault password and destroys the open core.
+ */
+
+import { NewZoneCore } from '../core.js';
+import { IdentityDerivation } from './derivation.js';
+import { Keystore } from './keystore.js';
+import { SecureBuffer, zeroize } from '../utils/zeroize.js';
+import {
+  KeyringEntry,
+  KeyringVault,
+  NewZoneCoreError,
+  NewZoneCoreOptions,
+  ScryptParams
+} from '../types.js';
+import { ERROR_CODES, SCRYPT_PARAMS } from '../constants.js';
+
+const KEYRING_VERSION = 1;
+
+export interface KeyringOptions {
+  scrypt?: ScryptParams; // KDF cost for identities added to the vault
+}
+
+export class IdentityKeyring {
+  #entries: KeyringEntry[];
+  #password: SecureBuffer | null = null;
+  #active: { chainId: string; core: NewZoneCore } | null = null;
+  #scrypt: ScryptParams;
+
+  private constructor(entries: KeyringEntry[], options: KeyringOptions) {
+    this.#entries = entries;
+    this.#scrypt = options.scrypt ?? SCRYPT_PARAMS;
+  }
+
+  /**
+   * Create empty keyring (unlocked)
+   */
+  static create(password: string, options: KeyringOptions = {}): IdentityKeyring {
+    const keyring = new IdentityKeyring([], options);
+    keyring.#hold(password);
+    return keyring;
+  }
+
+  /**
+   * Load keyring from vault (locked)
+   * @throws NewZoneCoreError INVALID_KEYSTORE if the vault is malformed
+   */
+  static fromVault(vault: KeyringVault | string, options: KeyringOptions = {}): IdentityKeyring {
+    let parsed: KeyringVault;
+    try {
+      parsed = typeof vault === 'string' ? JSON.parse(vault) as KeyringVault : vault;
+    } catch (e) {
+      throw new NewZoneCoreError(ERROR_CODES.INVALID_KEYSTORE, 'Keyring vault is not valid JSON', { error: e });
+    }
+
+    if (parsed?.version !== KEYRING_VERSION || !Array.isArray(parsed.entries)) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.INVALID_KEYSTORE,
+        `Unsupported keyring vault version: ${String(parsed?.version)}`
+      );
+    }
+
+    const entries = parsed.entries.map(entry => {
+      const keystore = Keystore.parse(entry.keystore);
+      if (typeof entry.label !== 'string' || entry.chain_id !== keystore.chain_id) {
+        throw new NewZoneCoreError(ERROR_CODES.INVALID_KEYSTORE, 'Malformed keyring entry');
+      }
+      return { chain_id: entry.chain_id, label: entry.label, keystore };
+    });
+
+    return new IdentityKeyring(entries, options);
+  }
+
+  /**
+   * Whether the vault password is held
+   */
+  get locked(): boolean {
+    return this.#password === null;
+  }
+
+  /**
+   * Unlock with vault password
+   * @throws NewZoneCoreError WRONG_PASSWORD
+   */
+  unlock(password: string): void {
+    this.#hold(password);
+
+    const [first] = this.#entries;
+    if (first && !Keystore.checkPassword(first.keystore, this.#unlocked())) {
+      this.lock();
+      throw new NewZoneCoreError(
+        ERROR_CODES.WRONG_PASSWORD,
+        'Wrong keyring password'
+      );
+    }
+  }
+
+  /**
+   * Destroy open identity and zeroize vault password
+   */
+  lock(): void {
+    this.#active?.core.destroy();
+    this.#active = null;
+
+    this.#password?.destroy();
+    this.#password = null;
+  }
+
+  /**
+   * Stored identities (available while locked)
+   */
+  list(): { chainId: string; label: string }[] {
+    return this.#entries.map(entry => ({ chainId: entry.chain_id, label: entry.label }));
+  }
+
+  /**
+   * Add identity under the vault password
+   */
+  async add(mnemonic: string, label: string): Promise<{ chainId: string; label: string }> {
+    const password = this.#unlocked();
+
+    const { seed, rootKey } = await IdentityDerivation.fromMnemonic(mnemonic);
+    zeroize(seed);
+    zeroize(rootKey.privateKey);
+
+    if (this.#entries.some(entry => entry.chain_id === rootKey.chainId)) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'Identity already in keyring',
+        { chainId: rootKey.chainId }
+      );
+    }
+
+    const keystore = await Keystore.encrypt(mnemonic, password, rootKey.chainId, this.#scrypt);
+    this.#entries.push({ chain_id: rootKey.chainId, label, keystore });
+
+    return { chainId: rootKey.chainId, label };
+  }
+
+  /**
+   * Open identity as a core; any previously open identity is destroyed
+   */
+  async open(chainId: string, options: NewZoneCoreOptions = {}): Promise<NewZoneCore> {
+    const password = this.#unlocked();
+    const entry = this.#find(chainId);
+
+    this.#active?.core.destroy();
+    this.#active = null;
+
+    const core = await NewZoneCore.fromKeystore(entry.keystore, password, options);
+    this.#active = { chainId, core };
+    return core;
+  }
+
+  /**
+   * Change identity label
+   */
+  rename(chainId: string, label: string): void {
+    this.#unlocked();
+    this.#find(chainId).label = label;
+  }
+
+  /**
+   * Remove identity (destroys it if open)
+   */
+  remove(chainId: string): void {
+    this.#unlocked();
+    this.#find(chainId);
+
+    if (this.#active?.chainId === chainId) {
+      this.#active.core.destroy();
+      this.#active = null;
+    }
+
+    this.#entries = this.#entries.filter(entry => entry.chain_id !== chainId);
+  }
+
+  /**
+   * Serializable vault (contains only encrypted key material)
+   */
+  export(): KeyringVault {
+    return {
+      version: KEYRING_VERSION,
+      entries: this.#entries.map(entry => ({ ...entry }))
+    };
+  }
+
+  #hold(password: string): void {
+    this.#password?.destroy();
+
+    const bytes = new TextEncoder().encode(password.normalize('NFKD'));
+    this.#password = new SecureBuffer(bytes.length);
+    this.#password.data = bytes;
+    zeroize(bytes);
+  }
+
+  #unlocked(): Uint8Array {
+    if (!this.#password) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.KEYRING_LOCKED,
+        'Keyring is locked'
+      );
+    }
+    return this.#password.data;
+  }
+
+  #find(chainId: string): KeyringEntry {
+    const entry = this.#entries.find(e => e.chain_id === chainId);
+    if (!entry) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.UNKNOWN_IDENTITY,
+        'Identity not in keyring',
+        { chainId }
+      );
+    }
+    return entry;
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Password-encrypted keystore (version 1)
+ * Mnemonic entropy sealed with AES-256-GCM under a scrypt-derived key.
+ *
+ *   scrypt(password, salt) → 64 bytes: encryption key (32) | verifier key (32)
+ *   verifier   = BLAKE2b-256("nzcore-keystore-verifier", verifier key)
+ *   ciphertext = AES-256-GCM(entropy, aad = canonical header)
+ *
+ * The verifier separates a wrong password from a modified file.
+ * Password protects storage only; identity derivation is unchanged.
+ * String passwords are NFKD-normalized UTF-8; byte passwords are used as given.
+ */
+
+import { randomBytes } from '@noble/hashes/utils';
+import { Mnemonic } from './mnemonic.js';
+import { AesGcm } from '../crypto/aes-gcm.js';
+import { Scrypt } from '../crypto/scrypt.js';
+import { Blake2b } from '../crypto/blake2b.js';
+import { CanonicalJSON } from '../document/canonical.js';
+import { zeroize, constantTimeEqual } from '../utils/zeroize.js';
+import { fromHex, toHex } from '../utils/encoding.js';
+import { KeystoreFile, NewZoneCoreError, ScryptParams } from '../types.js';
+import { ERROR_CODES, SCRYPT_PARAMS } from '../constants.js';
+
+const KEYSTORE_VERSION = 1;
+const VERIFIER_DOMAIN = 'nzcore-keystore-verifier';
+const SALT_BYTES = 32;
+
+// Upper bounds accepted when opening a file (limits work an untrusted file can demand)
+const MAX_SCRYPT = { N: 2 ** 20, r: 32, p: 16 } as const;
+
+export class Keystore {
+  /**
+   * Encrypt mnemonic with password
+   */
+  static async encrypt(
+    mnemonic: string,
+    password: string | Uint8Array,
+    chainId: string,
+    params: ScryptParams = SCRYPT_PARAMS
+  ): Promise<KeystoreFile> {
+    const entropy = Mnemonic.toEntropy(mnemonic);
+
+    const header: Omit<KeystoreFile, 'ciphertext' | 'verifier'> = {
+      version: KEYSTORE_VERSION,
+      chain_id: chainId,
+      kdf: { name: 'scrypt', n: params.N, r: params.r, p: params.p, salt: toHex(randomBytes(SALT_BYTES)) },
+      cipher: { name: 'aes-256-gcm', nonce: toHex(randomBytes(AesGcm.NONCE_BYTES)) }
+    };
+
+    const derived = this.deriveKey(password, header);
+    try {
+      const ciphertext = await AesGcm.encrypt(
+        derived.subarray(0, AesGcm.KEY_BYTES),
+        fromHex(header.cipher.nonce),
+        entropy,
+        this.aad(header)
+      );
+
+      return {
+        ...header,
+        ciphertext: toHex(ciphertext),
+        verifier: toHex(this.verifier(derived))
+      };
+    } finally {
+      zeroize(derived);
+      zeroize(entropy);
+    }
+  }
+
+  /**
+   * Decrypt keystore to mnemonic
+   * @throws NewZoneCoreError INVALID_KEYSTORE, WRONG_PASSWORD or KEYSTORE_TAMPERED
+   */
+  static async decrypt(file: KeystoreFile | string, password: string | Uint8Array): Promise<string> {
+    const keystore = this.parse(file);
+    const derived = this.deriveKey(password, keystore);
+
+    try {
+      if (!this.matchesVerifier(derived, keystore)) {
+        throw new NewZoneCoreError(
+          ERROR_CODES.WRONG_PASSWORD,
+          'Wrong keystore password'
+        );
+      }
+
+      let entropy: Uint8Array;
+      try {
+        entropy = await AesGcm.decrypt(
+          derived.subarray(0, AesGcm.KEY_BYTES),
+          fromHex(keystore.cipher.nonce),
+          fromHex(keystore.ciphertext),
+          this.aad(keystore)
+        );
+      } catch (e) {
+        throw new NewZoneCoreError(
+          ERROR_CODES.KEYSTORE_TAMPERED,
+          'Keystore failed authentication',
+          { chainId: keystore.chain_id, error: e }
+        );
+      }
+
+      try {
+        return Mnemonic.fromEntropy(entropy);
+      } finally {
+        zeroize(entropy);
+      }
+    } finally {
+      zeroize(derived);
+    }
+  }
+
+  /**
+   * Check password without decrypting
+   */
+  static checkPassword(file: KeystoreFile | string, password: string | Uint8Array): boolean {
+    const keystore = this.parse(file);
+    const derived = this.deriveKey(password, keystore);
+
+    try {
+      return this.matchesVerifier(derived, keystore);
+    } finally {
+      zeroize(derived);
+    }
+  }
+
+  /**
+   * Parse and check keystore shape
+   * @throws NewZoneCoreError INVALID_KEYSTORE
+   */
+  static parse(file: KeystoreFile | string): KeystoreFile {
+    let keystore: KeystoreFile;
+    try {
+      keystore = typeof file === 'string' ? JSON.parse(file) as KeystoreFile : file;
+    } catch (e) {
+      throw new NewZoneCoreError(ERROR_CODES.INVALID_KEYSTORE, 'Keystore is not valid JSON', { error: e });
+    }
+
+    const hex = (value: unknown, bytes?: number): boolean =>
+      typeof value === 'string' && /^([0-9a-f]{2})+$/.test(value) &&
+      (bytes === undefined || value.length === bytes * 2);
+    const kdf = keystore?.kdf;
+
+    if (keystore?.version !== KEYSTORE_VERSION) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.INVALID_KEYSTORE,
+        `Unsupported keystore version: ${String(keystore?.version)}`
+      );
+    }
+
+    if (typeof keystore.chain_id !== 'string' ||
+        kdf?.name !== 'scrypt' || !hex(kdf.salt) ||
+        !this.withinLimits(kdf.n, kdf.r, kdf.p) ||
+        keystore.cipher?.name !== 'aes-256-gcm' || !hex(keystore.cipher.nonce, AesGcm.NONCE_BYTES) ||
+        !hex(keystore.ciphertext) || !hex(keystore.verifier, 32)) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.INVALID_KEYSTORE,
+        'Malformed keystore file'
+      );
+    }
+
+    return keystore;
+  }
+
+  private static withinLimits(n: number, r: number, p: number): boolean {
+    return Number.isInteger(n) && n > 1 && (n & (n - 1)) === 0 && n <= MAX_SCRYPT.N &&
+      Number.isInteger(r) && r >= 1 && r <= MAX_SCRYPT.r &&
+      Number.isInteger(p) && p >= 1 && p <= MAX_SCRYPT.p;
+  }
+
+  private static deriveKey(password: string | Uint8Array, header: Pick<KeystoreFile, 'kdf'>): Uint8Array {
+    const passwordBytes = typeof password === 'string'
+      ? new TextEncoder().encode(password.normalize('NFKD'))
+      : password;
+    try {
+      return Scrypt.derive(passwordBytes, fromHex(header.kdf.salt), 64, {
+        N: header.kdf.n,
+        r: header.kdf.r,
+        p: header.kdf.p
+      });
+    } finally {
+      // Caller owns byte passwords
+      if (passwordBytes !== password) zeroize(passwordBytes);
+    }
+  }
+
+  private static matchesVerifier(derived: Uint8Array, keystore: KeystoreFile): boolean {
+    return constantTimeEqual(this.verifier(derived), fromHex(keystore.verifier));
+  }
+
+  private static verifier(derived: Uint8Array): Uint8Array {
+    return Blake2b.hashWithDomain(VERIFIER_DOMAIN, derived.subarray(32, 64));
+  }
+
+  private static aad(keystore: Omit<KeystoreFile, 'ciphertext' | 'verifier'>): Uint8Array {
+    return new TextEncoder().encode(CanonicalJSON.serialize({
+      version: keystore.version,
+      chain_id: keystore.chain_id,
+      kdf: keystore.kdf,
+      cipher: keystore.cipher
+    }));
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Key lock
+ * Seals key material to an X25519 public key derived from a secret, so
+ * locking needs no secret in memory and only unlocking needs the secret.
+ *
+ *   lock key   = X25519(scrypt(secret, salt))
+ *   seal       = ephemeral X25519 → HKDF-SHA256 → AES-256-GCM
+ */
+
+import { randomBytes } from '@noble/hashes/utils';
+import { AesGcm } from '../crypto/aes-gcm.js';
+import { Hkdf } from '../crypto/hkdf.js';
+import { Scrypt } from '../crypto/scrypt.js';
+import { X25519 } from '../crypto/x25519.js';
+import { zeroize } from '../utils/zeroize.js';
+import { mergeArrays } from '../utils/encoding.js';
+import { NewZoneCoreError, ScryptParams } from '../types.js';
+import { ERROR_CODES, SCRYPT_PARAMS } from '../constants.js';
+
+const SEAL_INFO = 'nzcore-lock-v1';
+const SALT_BYTES = 32;
+
+export interface SealedKey {
+  ephemeralPublicKey: Uint8Array;
+  nonce: Uint8Array;
+  ciphertext: Uint8Array;
+}
+
+export class KeyLock {
+  readonly #publicKey: Uint8Array;
+  readonly #salt: Uint8Array;
+  readonly #params: ScryptParams;
+
+  private constructor(publicKey: Uint8Array, salt: Uint8Array, params: ScryptParams) {
+    this.#publicKey = publicKey;
+    this.#salt = salt;
+    this.#params = params;
+  }
+
+  /**
+   * Derive lock key from secret; only the public half is kept
+   */
+  static fromSecret(secret: string, params: ScryptParams = SCRYPT_PARAMS): KeyLock {
+    const salt = randomBytes(SALT_BYTES);
+    const privateKey = this.derivePrivateKey(secret, salt, params);
+
+    try {
+      return new KeyLock(X25519.getPublicKey(privateKey), salt, params);
+    } finally {
+      zeroize(privateKey);
+    }
+  }
+
+  /**
+   * Seal plaintext (no secret required)
+   */
+  async seal(plaintext: Uint8Array): Promise<SealedKey> {
+    const ephemeral = randomBytes(32);
+    const ephemeralPublicKey = X25519.getPublicKey(ephemeral);
+    const key = this.#sealingKey(X25519.sharedSecret(ephemeral, this.#publicKey), ephemeralPublicKey);
+    zeroize(ephemeral);
+
+    try {
+      const nonce = randomBytes(AesGcm.NONCE_BYTES);
+      const ciphertext = await AesGcm.encrypt(key, nonce, plaintext);
+      return { ephemeralPublicKey, nonce, ciphertext };
+    } finally {
+      zeroize(key);
+    }
+  }
+
+  /**
+   * Open sealed key material
+   * @throws NewZoneCoreError WRONG_PASSWORD if the secret does not match
+   */
+  async open(secret: string, sealed: SealedKey): Promise<Uint8Array> {
+    const privateKey = KeyLock.derivePrivateKey(secret, this.#salt, this.#params);
+    const key = this.#sealingKey(X25519.sharedSecret(privateKey, sealed.ephemeralPublicKey), sealed.ephemeralPublicKey);
+    zeroize(privateKey);
+
+    try {
+      return await AesGcm.decrypt(key, sealed.nonce, sealed.ciphertext);
+    } catch {
+      throw new NewZoneCoreError(
+        ERROR_CODES.WRONG_PASSWORD,
+        'Wrong unlock secret'
+      );
+    } finally {
+      zeroize(key);
+    }
+  }
+
+  #sealingKey(shared: Uint8Array, ephemeralPublicKey: Uint8Array): Uint8Array {
+    try {
+      return Hkdf.derive(
+        shared,
+        mergeArrays(ephemeralPublicKey, this.#publicKey),
+        new TextEncoder().encode(SEAL_INFO),
+        AesGcm.KEY_BYTES
+      );
+    } finally {
+      zeroize(shared);
+    }
+  }
+
+  private static derivePrivateKey(secret: string, salt: Uint8Array, params: ScryptParams): Uint8Array {
+    const secretBytes = new TextEncoder().encode(secret.normalize('NFKD'));
+    try {
+      return Scrypt.derive(secretBytes, salt, 32, params);
+    } finally {
+      zeroize(secretBytes);
+    }
+  }
+}
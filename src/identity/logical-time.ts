@@ -90,6 +90,37 @@ export class LogicalClock {
     this.#current = lastLogicalTime;
   }
 
+  /**
+   * Lamport merge with a time observed on another device
+   * Advances to max(local, remote) + 1; returns new time value
+   */
+  merge(remoteTime: number): number {
+    if (!Number.isInteger(remoteTime) || remoteTime < LOGICAL_TIME.MIN) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.LOGICAL_TIME_VIOLATION,
+        `Remote logical time must be an integer >= ${LOGICAL_TIME.MIN}`
+      );
+    }
+
+    if (this.#frozen) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.LOGICAL_TIME_VIOLATION,
+        'Clock frozen - cannot advance'
+      );
+    }
+
+    const base = Math.max(this.#current, remoteTime);
+    if (base >= this.#maxTime) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.LOGICAL_TIME_VIOLATION,
+        'Logical time overflow'
+      );
+    }
+
+    this.#current = base + 1;
+    return this.#current;
+  }
+
   /**
    * Freeze clock (for testing/audit)
    */
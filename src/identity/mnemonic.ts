@@ -4,10 +4,35 @@
 
 import * as bip39 from '@scure/bip39';
 import { wordlist } from '@scure/bip39/wordlists/english';
+import { randomBytes } from '@noble/hashes/utils';
+import { Shamir } from './shamir.js';
+import { Blake2b } from '../crypto/blake2b.js';
+import { zeroize, constantTimeEqual } from '../utils/zeroize.js';
 import { NewZoneCoreError } from '../types.js';
 import { BIP39_STRENGTH, ERROR_CODES } from '../constants.js';
 // Удаляем неиспользуемые импорты toHex и fromHex
 
+/**
+ * Share layout (before word encoding, 11 bits per word, zero padded):
+ *   version (1) | set id (2) | threshold (1) | index (1) | length (1) |
+ *   digest (4) = BLAKE2b-256("nzcore-mnemonic-secret", entropy) |
+ *   value (length) | checksum (4) = BLAKE2b-256("nzcore-mnemonic-share", preceding bytes)
+ */
+const SHARE_VERSION = 1;
+const SHARE_HEADER_BYTES = 10;
+const SHARE_DIGEST_BYTES = 4;
+const SHARE_DIGEST_DOMAIN = 'nzcore-mnemonic-secret';
+const SHARE_CHECKSUM_BYTES = 4;
+const SHARE_CHECKSUM_DOMAIN = 'nzcore-mnemonic-share';
+
+interface DecodedShare {
+  setId: number;
+  threshold: number;
+  index: number;
+  digest: Uint8Array;
+  value: Uint8Array;
+}
+
 export class Mnemonic {
   /**
    * Generate BIP-39 mnemonic (24 words)
@@ -94,6 +119,179 @@ export class Mnemonic {
     }
   }
 
+  /**
+   * Split mnemonic entropy into count shares, any threshold of which recover it
+   * Each share is a checksummed word list from the BIP-39 wordlist
+   */
+  static split(mnemonic: string, threshold: number, count: number): string[] {
+    const entropy = this.toEntropy(mnemonic);
+    const setId = new DataView(randomBytes(2).buffer).getUint16(0, false);
+    const digest = this.secretDigest(entropy);
+
+    try {
+      return Shamir.split(entropy, threshold, count).map(share => {
+        const encoded = this.encodeShare({ setId, threshold, digest, ...share });
+        zeroize(share.value);
+        return encoded;
+      });
+    } finally {
+      zeroize(entropy);
+    }
+  }
+
+  /**
+   * Recover mnemonic from shares
+   * @throws NewZoneCoreError INVALID_SHARE, SHARE_MISMATCH or INSUFFICIENT_SHARES
+   */
+  static combine(shares: string[]): string {
+    const decoded = shares.map((share, i) => this.decodeShare(share, i));
+    const [first] = decoded;
+
+    if (!first) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.INSUFFICIENT_SHARES,
+        'No shares provided'
+      );
+    }
+
+    const unique = new Map<number, DecodedShare>();
+    for (const share of decoded) {
+      if (share.setId !== first.setId ||
+          share.threshold !== first.threshold ||
+          share.value.length !== first.value.length ||
+          !constantTimeEqual(share.digest, first.digest)) {
+        throw new NewZoneCoreError(
+          ERROR_CODES.SHARE_MISMATCH,
+          'Shares belong to different splits',
+          { index: share.index }
+        );
+      }
+
+      const seen = unique.get(share.index);
+      if (seen && !constantTimeEqual(seen.value, share.value)) {
+        throw new NewZoneCoreError(
+          ERROR_CODES.SHARE_MISMATCH,
+          'Conflicting shares with the same index',
+          { index: share.index }
+        );
+      }
+      unique.set(share.index, share);
+    }
+
+    if (unique.size < first.threshold) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.INSUFFICIENT_SHARES,
+        `Need ${first.threshold} distinct shares, got ${unique.size}`,
+        { threshold: first.threshold, provided: unique.size }
+      );
+    }
+
+    const entropy = Shamir.combine(Array.from(unique.values()).slice(0, first.threshold));
+    try {
+      // Splits that share a set ID still recover the wrong secret
+      if (!constantTimeEqual(this.secretDigest(entropy), first.digest)) {
+        throw new NewZoneCoreError(
+          ERROR_CODES.SHARE_MISMATCH,
+          'Recovered secret does not match the share digest'
+        );
+      }
+
+      return this.fromEntropy(entropy);
+    } finally {
+      zeroize(entropy);
+      decoded.forEach(share => zeroize(share.value));
+    }
+  }
+
+  private static encodeShare(share: DecodedShare): string {
+    const body = new Uint8Array(SHARE_HEADER_BYTES + share.value.length);
+    const view = new DataView(body.buffer);
+    view.setUint8(0, SHARE_VERSION);
+    view.setUint16(1, share.setId, false);
+    view.setUint8(3, share.threshold);
+    view.setUint8(4, share.index);
+    view.setUint8(5, share.value.length);
+    body.set(share.digest, 6);
+    body.set(share.value, SHARE_HEADER_BYTES);
+
+    const bytes = new Uint8Array(body.length + SHARE_CHECKSUM_BYTES);
+    bytes.set(body);
+    bytes.set(this.shareChecksum(body), body.length);
+
+    const words: string[] = [];
+    for (let bit = 0; bit < bytes.length * 8; bit += 11) {
+      let value = 0;
+      for (let i = 0; i < 11; i++) {
+        const pos = bit + i;
+        const set = pos < bytes.length * 8 && ((bytes[pos >> 3] as number) >> (7 - (pos & 7))) & 1;
+        value = (value << 1) | (set ? 1 : 0);
+      }
+      words.push(wordlist[value] as string);
+    }
+
+    zeroize(body);
+    zeroize(bytes);
+    return words.join(' ');
+  }
+
+  private static decodeShare(share: string, position: number): DecodedShare {
+    const invalid = (reason: string): NewZoneCoreError => new NewZoneCoreError(
+      ERROR_CODES.INVALID_SHARE,
+      `Share ${position + 1}: ${reason}`,
+      { position }
+    );
+
+    const words = share.trim().split(/\s+/);
+    const bytes = new Uint8Array(Math.ceil(words.length * 11 / 8));
+
+    words.forEach((word, w) => {
+      const value = wordlist.indexOf(word);
+      if (value === -1) throw invalid(`unknown word "${word}"`);
+
+      for (let i = 0; i < 11; i++) {
+        const pos = w * 11 + i;
+        if ((value >> (10 - i)) & 1) {
+          bytes[pos >> 3] = (bytes[pos >> 3] as number) | (1 << (7 - (pos & 7)));
+        }
+      }
+    });
+
+    if (bytes.length < SHARE_HEADER_BYTES + SHARE_CHECKSUM_BYTES) throw invalid('too short');
+
+    const view = new DataView(bytes.buffer);
+    const length = view.getUint8(5);
+    const total = SHARE_HEADER_BYTES + length + SHARE_CHECKSUM_BYTES;
+
+    if (words.length !== Math.ceil(total * 8 / 11)) throw invalid('wrong number of words');
+    if (bytes.subarray(total).some(byte => byte !== 0)) throw invalid('non-zero padding');
+
+    const body = bytes.subarray(0, total - SHARE_CHECKSUM_BYTES);
+    if (!constantTimeEqual(bytes.subarray(body.length, total), this.shareChecksum(body))) {
+      throw invalid('checksum mismatch');
+    }
+
+    if (view.getUint8(0) !== SHARE_VERSION) throw invalid(`unsupported version ${view.getUint8(0)}`);
+
+    const setId = view.getUint16(1, false);
+    const threshold = view.getUint8(3);
+    const index = view.getUint8(4);
+    if (threshold < 1 || index < 1) throw invalid('invalid threshold or index');
+
+    const digest = bytes.slice(6, SHARE_HEADER_BYTES);
+    const value = bytes.slice(SHARE_HEADER_BYTES, SHARE_HEADER_BYTES + length);
+    zeroize(bytes);
+
+    return { setId, threshold, index, digest, value };
+  }
+
+  private static secretDigest(entropy: Uint8Array): Uint8Array {
+    return Blake2b.hashWithDomain(SHARE_DIGEST_DOMAIN, entropy).slice(0, SHARE_DIGEST_BYTES);
+  }
+
+  private static shareChecksum(body: Uint8Array): Uint8Array {
+    return Blake2b.hashWithDomain(SHARE_CHECKSUM_DOMAIN, body).slice(0, SHARE_CHECKSUM_BYTES);
+  }
+
   /**
    * Mask mnemonic for logging (first 3 words only)
    */
@@ -0,0 +1,115 @@
+/**
+ * Shamir secret sharing over GF(256)
+ * Field polynomial x^8 + x^4 + x^3 + x + 1 (0x11b), generator 3.
+ * Each secret byte is shared with an independent random polynomial
+ * of degree threshold - 1; share index is the evaluation point (1..255).
+ */
+
+import { randomBytes } from '@noble/hashes/utils';
+import { zeroize } from '../utils/zeroize.js';
+import { NewZoneCoreError } from '../types.js';
+import { ERROR_CODES } from '../constants.js';
+
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = x;
+  EXP[i + 255] = x;
+  LOG[x] = i;
+  x ^= (x << 1) ^ ((x & 0x80) ? 0x11b : 0); // x *= 3
+}
+
+export interface SecretShare {
+  index: number;     // Evaluation point, 1..255
+  value: Uint8Array; // Same length as the secret
+}
+
+export class Shamir {
+  /**
+   * Split secret into count shares, any threshold of which recover it
+   */
+  static split(secret: Uint8Array, threshold: number, count: number): SecretShare[] {
+    if (!Number.isInteger(threshold) || !Number.isInteger(count) ||
+        threshold < 1 || threshold > count || count > 255) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'Shamir split requires 1 <= threshold <= count <= 255',
+        { threshold, count }
+      );
+    }
+
+    const shares: SecretShare[] = Array.from({ length: count }, (_, i) => ({
+      index: i + 1,
+      value: new Uint8Array(secret.length)
+    }));
+    const coefficients = new Uint8Array(threshold);
+
+    for (let byte = 0; byte < secret.length; byte++) {
+      coefficients[0] = secret[byte] as number;
+      coefficients.set(randomBytes(threshold - 1), 1);
+
+      for (const share of shares) {
+        share.value[byte] = this.evaluate(coefficients, share.index);
+      }
+    }
+
+    zeroize(coefficients);
+    return shares;
+  }
+
+  /**
+   * Recover secret by Lagrange interpolation at x = 0
+   * Caller MUST pass at least threshold shares with distinct indices
+   */
+  static combine(shares: SecretShare[]): Uint8Array {
+    const length = shares[0]?.value.length ?? 0;
+    const indices = new Set(shares.map(share => share.index));
+
+    if (shares.length === 0 || indices.size !== shares.length ||
+        shares.some(share => share.index < 1 || share.index > 255 || share.value.length !== length)) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.SHARE_MISMATCH,
+        'Shares must have distinct indices and equal length'
+      );
+    }
+
+    const secret = new Uint8Array(length);
+
+    for (const share of shares) {
+      // Lagrange basis at 0: prod(x_j / (x_j - x_i)), subtraction is XOR
+      let basis = 1;
+      for (const other of shares) {
+        if (other.index === share.index) continue;
+        basis = this.mul(basis, this.div(other.index, other.index ^ share.index));
+      }
+
+      for (let byte = 0; byte < length; byte++) {
+        secret[byte] = (secret[byte] as number) ^ this.mul(share.value[byte] as number, basis);
+      }
+    }
+
+    return secret;
+  }
+
+  /**
+   * Horner evaluation of polynomial at x
+   */
+  private static evaluate(coefficients: Uint8Array, x: number): number {
+    let y = 0;
+    for (let i = coefficients.length - 1; i >= 0; i--) {
+      y = this.mul(y, x) ^ (coefficients[i] as number);
+    }
+    return y;
+  }
+
+  private static mul(a: number, b: number): number {
+    if (a === 0 || b === 0) return 0;
+    return EXP[(LOG[a] as number) + (LOG[b] as number)] as number;
+  }
+
+  private static div(a: number, b: number): number {
+    if (a === 0) return 0;
+    return EXP[(LOG[a] as number) + 255 - (LOG[b] as number)] as number;
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Local Signer
+ * In-process Signer over an Ed25519 private key. The mnemonic path of
+ * NewZoneCore uses it; remote or isolated signers implement the same interface.
+ */
+
+import { Ed25519 } from '../crypto/ed25519.js';
+import { IdentityDerivation } from './derivation.js';
+import { zeroize } from '../utils/zeroize.js';
+import { NewZoneCoreError, Signer } from '../types.js';
+import { ERROR_CODES, KEY_LENGTHS } from '../constants.js';
+
+export class LocalSigner implements Signer {
+  readonly #publicKey: Uint8Array;
+  readonly #privateKey: Uint8Array;
+
+  /**
+   * Wrap a key pair; the private key buffer is used in place, not copied
+   */
+  constructor(keyPair: { publicKey: Uint8Array; privateKey: Uint8Array }) {
+    if (
+      keyPair.publicKey.length !== KEY_LENGTHS.PUBLIC_KEY ||
+      keyPair.privateKey.length !== KEY_LENGTHS.PRIVATE_KEY
+    ) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.INVALID_KEY,
+        'Invalid Ed25519 key pair length'
+      );
+    }
+
+    this.#publicKey = keyPair.publicKey.slice();
+    this.#privateKey = keyPair.privateKey;
+  }
+
+  /**
+   * Signer for the root key of a mnemonic
+   */
+  static async fromMnemonic(mnemonic: string): Promise<LocalSigner> {
+    const { seed, rootKey } = await IdentityDerivation.fromMnemonic(mnemonic);
+    zeroize(seed);
+    return new LocalSigner(rootKey);
+  }
+
+  getPublicKey(): Uint8Array {
+    return this.#publicKey.slice();
+  }
+
+  /**
+   * Sign with a copy so zeroizing the key mid-signature is safe
+   */
+  async sign(message: Uint8Array): Promise<Uint8Array> {
+    const privateKey = this.#privateKey.slice();
+    try {
+      return await Ed25519.sign(message, privateKey);
+    } finally {
+      zeroize(privateKey);
+    }
+  }
+
+  /**
+   * Zeroize private key
+   */
+  destroy(): void {
+    zeroize(this.#privateKey);
+  }
+}
+
+/**
+ * Signer for watch-only cores: knows the public key, never signs
+ */
+export class WatchOnlySigner implements Signer {
+  readonly #publicKey: Uint8Array;
+
+  constructor(publicKey: Uint8Array) {
+    this.#publicKey = publicKey.slice();
+  }
+
+  getPublicKey(): Uint8Array {
+    return this.#publicKey.slice();
+  }
+
+  async sign(): Promise<Uint8Array> {
+    throw new NewZoneCoreError(
+      ERROR_CODES.WATCH_ONLY,
+      'Watch-only core cannot sign; use a signing request'
+    );
+  }
+}
@@ -4,31 +4,58 @@
  * 
  * This is the main entry point for the library
  * Exports public API and types
+ * Platform-neutral: Node.js-only adapters are in `nzcore/node` (./node.ts)
  */
 
 // Core class
 export { NewZoneCore } from './core.js';
+export { NewZoneVerifier } from './verifier.js';
 
 // Identity
 export { Mnemonic } from './identity/mnemonic.js';
 export { IdentityDerivation } from './identity/derivation.js';
+export { HDKeyDerivation } from './identity/hd.js';
+export { Shamir } from './identity/shamir.js';
+export { Keystore } from './identity/keystore.js';
+export { KeyLock } from './identity/lock.js';
+export type { SealedKey } from './identity/lock.js';
+export { LocalSigner } from './identity/signer.js';
+export { IdentityKeyring } from './identity/keyring.js';
+export type { KeyringOptions } from './identity/keyring.js';
+export type { SecretShare } from './identity/shamir.js';
+export type { HDKeyPair } from './identity/hd.js';
 export { generateIdentity, createIdentity } from './identity/factory.js';
 
 // Document
 export { DocumentBuilder } from './document/builder.js';
 export { DocumentValidator } from './document/validator.js';
 export { CanonicalJSON } from './document/canonical.js';
+export { SigningRequest } from './document/signing-request.js';
 
 // Chain
 export { LogicalClock } from './identity/logical-time.js';
 export { ChainStateManager } from './chain/state.js';
+export type { ChainImportReport, ChainCheckpoint, RejectedDocument } from './chain/state.js';
 export { ForkDetector } from './chain/fork.js';
+export { ChainDag, GENESIS_PARENT } from './chain/dag.js';
+export { EquivocationProof } from './chain/equivocation.js';
+export { KeyHistory } from './chain/keys.js';
+export type { KeyEpoch } from './chain/keys.js';
+export { DelegationSet } from './chain/delegation.js';
+export type { Delegation, DelegationScope } from './chain/delegation.js';
+
+// Storage
+export { MemoryChainStorage } from './storage/memory.js';
+export { ChainLog } from './storage/log.js';
 
 // Crypto
 export { Ed25519 } from './crypto/ed25519.js';
 export { Blake2b } from './crypto/blake2b.js';
 export { Scrypt } from './crypto/scrypt.js';
 export { Hkdf } from './crypto/hkdf.js';
+export { AesGcm } from './crypto/aes-gcm.js';
+export { X25519 } from './crypto/x25519.js';
+export { CryptoSuiteRegistry } from './crypto/suite.js';
 
 // Utils
 export { zeroize, constantTimeEqual } from './utils/zeroize.js';
@@ -0,0 +1,13 @@
+/**
+ * NewZoneCore for Node.js
+ * Entry point `nzcore/node`: adapters that need Node.js built-ins
+ * (node:fs, node:net). The main entry stays platform-neutral.
+ */
+
+// Storage
+export { FileSystemChainStorage } from './storage/filesystem.js';
+
+// Signing agent
+export { SigningAgent } from './agent/agent.js';
+export type { AgentClient, AgentClientPolicy, AgentPolicy, AgentOptions, AgentSignRequest, AgentLogEntry } from './agent/agent.js';
+export { AgentSigner } from './agent/client.js';
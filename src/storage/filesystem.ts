@@ -0,0 +1,317 @@
+/**
+ * Filesystem chain storage (Node.js only)
+ * Implements the /env layout from specs/ENVIRONMENT.md:
+ *
+ *   /env
+ *     meta.json     - single source of truth for logical_clock
+ *     keys/         - reserved for key material
+ *     documents/    - one canonical JSON file per document
+ *     factchain/    - append-only chain log (see ChainLog)
+ *
+ * Every commit is fsynced before append() returns.
+ * A torn final log record is truncated on load().
+ * replace() stages the new log and meta.json, then renames them in;
+ * a staged meta.json marks the replacement complete.
+ */
+
+import {
+  closeSync,
+  existsSync,
+  fsyncSync,
+  ftruncateSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  writeSync
+} from 'node:fs';
+import { join } from 'node:path';
+
+import { CanonicalJSON } from '../document/canonical.js';
+import { ChainLog } from './log.js';
+import {
+  ChainStorage,
+  ChainStorageMeta,
+  ChainStorageSnapshot,
+  Document,
+  NewZoneCoreError
+} from '../types.js';
+import { ERROR_CODES } from '../constants.js';
+
+const META_FILE = 'meta.json';
+const KEYS_DIR = 'keys';
+const DOCUMENTS_DIR = 'documents';
+const FACTCHAIN_DIR = 'factchain';
+const FACTCHAIN_LOG = 'chain.log';
+const STAGED_SUFFIX = '.replace';
+
+export class FileSystemChainStorage implements ChainStorage {
+  readonly root: string;
+
+  constructor(root: string) {
+    this.root = root;
+
+    this.#guard('initialize storage', () => {
+      for (const dir of [KEYS_DIR, DOCUMENTS_DIR, FACTCHAIN_DIR]) {
+        mkdirSync(join(root, dir), { recursive: true });
+      }
+
+      this.#recoverReplace();
+    });
+  }
+
+  /**
+   * Directory reserved for key material
+   */
+  get keysPath(): string {
+    return join(this.root, KEYS_DIR);
+  }
+
+  /**
+   * Load stored chain (null if meta.json does not exist)
+   * Log records after meta.last_state_hash were never
+   * acknowledged and are discarded
+   */
+  load(): ChainStorageSnapshot | null {
+    return this.#guard('load storage', () => {
+      const metaPath = join(this.root, META_FILE);
+      if (!existsSync(metaPath)) {
+        return null;
+      }
+
+      const meta = JSON.parse(readFileSync(metaPath, 'utf8')) as ChainStorageMeta;
+      const replayed = this.#readFactChain();
+      const ids = replayed.map(doc => doc.id);
+
+      const committed = ids.lastIndexOf(meta.last_state_hash);
+      if (committed === -1 && meta.last_state_hash !== '0'.repeat(64)) {
+        throw new NewZoneCoreError(
+          ERROR_CODES.STORAGE_FAILED,
+          'meta.json references a document missing from the fact chain',
+          { lastStateHash: meta.last_state_hash }
+        );
+      }
+
+      const documents = replayed.slice(0, committed + 1);
+
+      // Drop unacknowledged tail so later appends follow the committed head
+      if (documents.length < replayed.length) {
+        this.#writeFileAtomic(
+          join(this.root, FACTCHAIN_DIR, FACTCHAIN_LOG),
+          ChainLog.encode(documents)
+        );
+      }
+
+      return { meta, documents };
+    });
+  }
+
+  /**
+   * Commit document: document file → fact chain → meta.json
+   */
+  append(document: Document, meta: ChainStorageMeta): void {
+    this.#guard('append document', () => {
+      this.#writeDocument(document);
+      this.#appendFactChain(ChainLog.encodeRecord(document));
+      this.#writeMeta(meta);
+    });
+  }
+
+  /**
+   * Commit documents together: document files → one fact chain write → meta.json
+   * Until meta.json moves, load() discards the whole batch
+   */
+  appendBatch(documents: Document[], meta: ChainStorageMeta): void {
+    this.#guard('append documents', () => {
+      for (const document of documents) {
+        this.#writeDocument(document);
+      }
+      this.#appendFactChain(ChainLog.encode(documents));
+      this.#writeMeta(meta);
+    });
+  }
+
+  /**
+   * Replace stored chain entirely
+   * Nothing is removed until the new meta.json is in place, so a crash
+   * leaves either the old chain or the new one
+   */
+  replace(snapshot: ChainStorageSnapshot): void {
+    this.#guard('replace storage', () => {
+      for (const document of snapshot.documents) {
+        this.#writeDocument(document);
+      }
+
+      // Log first: a staged meta.json means staging finished
+      this.#writeFileAtomic(
+        join(this.root, FACTCHAIN_DIR, FACTCHAIN_LOG + STAGED_SUFFIX),
+        ChainLog.encode(snapshot.documents)
+      );
+      this.#writeFileAtomic(join(this.root, META_FILE + STAGED_SUFFIX), this.#encodeMeta(snapshot.meta));
+      this.#commitReplace();
+
+      // Committed; drop files of documents no longer in the chain
+      const kept = new Set(snapshot.documents.map(doc => `${doc.id}.json`));
+      const documentsPath = join(this.root, DOCUMENTS_DIR);
+      for (const entry of readdirSync(documentsPath)) {
+        if (!kept.has(entry)) {
+          rmSync(join(documentsPath, entry), { force: true, recursive: true });
+        }
+      }
+      this.#fsyncDir(documentsPath);
+    });
+  }
+
+  /**
+   * Remove all stored chain state (keys/ is left untouched)
+   */
+  clear(): void {
+    this.#guard('clear storage', () => {
+      this.#removeContents();
+    });
+  }
+
+  /**
+   * Rename staged log (if still staged) and staged meta.json into place
+   */
+  #commitReplace(): void {
+    const logPath = join(this.root, FACTCHAIN_DIR, FACTCHAIN_LOG);
+    const metaPath = join(this.root, META_FILE);
+
+    if (existsSync(logPath + STAGED_SUFFIX)) {
+      renameSync(logPath + STAGED_SUFFIX, logPath);
+      this.#fsyncDir(join(this.root, FACTCHAIN_DIR));
+    }
+
+    renameSync(metaPath + STAGED_SUFFIX, metaPath);
+    this.#fsyncDir(this.root);
+  }
+
+  /**
+   * Finish a replace() interrupted after staging, or discard an incomplete one
+   */
+  #recoverReplace(): void {
+    if (existsSync(join(this.root, META_FILE + STAGED_SUFFIX))) {
+      this.#commitReplace();
+    } else {
+      rmSync(join(this.root, FACTCHAIN_DIR, FACTCHAIN_LOG + STAGED_SUFFIX), { force: true });
+    }
+  }
+
+  #removeContents(): void {
+    rmSync(join(this.root, META_FILE), { force: true });
+
+    for (const dir of [DOCUMENTS_DIR, FACTCHAIN_DIR]) {
+      const path = join(this.root, dir);
+      for (const entry of readdirSync(path)) {
+        rmSync(join(path, entry), { force: true, recursive: true });
+      }
+      this.#fsyncDir(path);
+    }
+
+    this.#fsyncDir(this.root);
+  }
+
+  /**
+   * Replay fact chain log, truncating a torn final record
+   */
+  #readFactChain(): Document[] {
+    const path = join(this.root, FACTCHAIN_DIR, FACTCHAIN_LOG);
+    if (!existsSync(path)) {
+      return [];
+    }
+
+    const replay = ChainLog.decode(new Uint8Array(readFileSync(path)));
+
+    if (replay.truncated) {
+      const fd = openSync(path, 'r+');
+      try {
+        ftruncateSync(fd, replay.validLength);
+        fsyncSync(fd);
+      } finally {
+        closeSync(fd);
+      }
+    }
+
+    return replay.documents;
+  }
+
+  #appendFactChain(records: Uint8Array): void {
+    const fd = openSync(join(this.root, FACTCHAIN_DIR, FACTCHAIN_LOG), 'a');
+    try {
+      writeSync(fd, records);
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  #writeDocument(document: Document): void {
+    if (!/^[0-9a-f]{64}$/.test(document.id)) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.STORAGE_FAILED,
+        'Document ID is not a valid file name',
+        { id: document.id }
+      );
+    }
+
+    this.#writeFileAtomic(
+      join(this.root, DOCUMENTS_DIR, `${document.id}.json`),
+      CanonicalJSON.serialize(document)
+    );
+  }
+
+  #writeMeta(meta: ChainStorageMeta): void {
+    this.#writeFileAtomic(join(this.root, META_FILE), this.#encodeMeta(meta));
+  }
+
+  #encodeMeta(meta: ChainStorageMeta): string {
+    return JSON.stringify(meta, null, 2);
+  }
+
+  /**
+   * Write to temp file, fsync, rename over target, fsync directory
+   */
+  #writeFileAtomic(path: string, content: string | Uint8Array): void {
+    const tmp = `${path}.tmp`;
+    const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+    const fd = openSync(tmp, 'w');
+    try {
+      writeSync(fd, bytes);
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+
+    renameSync(tmp, path);
+    this.#fsyncDir(join(path, '..'));
+  }
+
+  #fsyncDir(path: string): void {
+    let fd: number | undefined;
+    try {
+      fd = openSync(path, 'r');
+      fsyncSync(fd);
+    } catch {
+      // Directory fsync is unsupported on some platforms (e.g. Windows)
+    } finally {
+      if (fd !== undefined) closeSync(fd);
+    }
+  }
+
+  #guard<T>(operation: string, fn: () => T): T {
+    try {
+      return fn();
+    } catch (e) {
+      if (e instanceof NewZoneCoreError) throw e;
+
+      throw new NewZoneCoreError(
+        ERROR_CODES.STORAGE_FAILED,
+        `Failed to ${operation}`,
+        { root: this.root, error: e }
+      );
+    }
+  }
+}
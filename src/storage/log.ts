@@ -0,0 +1,115 @@
+/**
+ * Append-only chain log
+ * Crash-safe framing for chain documents
+ *
+ * Record layout:
+ *   length   (u32, big-endian) - payload size in bytes
+ *   checksum (32 bytes)        - BLAKE2b-256 of payload, domain separated
+ *   payload  (length bytes)    - canonical JSON of one document
+ *
+ * A damaged final record is a torn write and is truncated on replay.
+ * A damaged record followed by further data is corruption and is fatal.
+ */
+
+import { Blake2b } from '../crypto/blake2b.js';
+import { CanonicalJSON } from '../document/canonical.js';
+import { constantTimeEqual } from '../utils/zeroize.js';
+import { mergeArrays } from '../utils/encoding.js';
+import { ChainLogReplay, Document, NewZoneCoreError } from '../types.js';
+import { ERROR_CODES, KEY_LENGTHS } from '../constants.js';
+
+const LENGTH_BYTES = 4;
+const HEADER_BYTES = LENGTH_BYTES + KEY_LENGTHS.HASH;
+const CHECKSUM_DOMAIN = 'nzcore-chain-log-record';
+
+export class ChainLog {
+  /**
+   * Frame a single document as a log record
+   */
+  static encodeRecord(document: Document): Uint8Array {
+    const payload = new TextEncoder().encode(CanonicalJSON.serialize(document));
+
+    const header = new Uint8Array(HEADER_BYTES);
+    new DataView(header.buffer).setUint32(0, payload.length, false);
+    header.set(this.checksum(payload), LENGTH_BYTES);
+
+    return mergeArrays(header, payload);
+  }
+
+  /**
+   * Frame documents in order
+   */
+  static encode(documents: Document[]): Uint8Array {
+    return mergeArrays(...documents.map(doc => this.encodeRecord(doc)));
+  }
+
+  /**
+   * Replay log
+   * Returns documents up to the last intact record
+   * @throws NewZoneCoreError if a record before the tail fails its checksum
+   */
+  static decode(data: Uint8Array): ChainLogReplay {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const documents: Document[] = [];
+    let offset = 0;
+    let truncated = false;
+
+    while (offset < data.length) {
+      // Incomplete header or payload: torn final write
+      if (data.length - offset < HEADER_BYTES) {
+        truncated = true;
+        break;
+      }
+
+      const length = view.getUint32(offset, false);
+      const end = offset + HEADER_BYTES + length;
+
+      if (end > data.length) {
+        truncated = true;
+        break;
+      }
+
+      const expected = data.subarray(offset + LENGTH_BYTES, offset + HEADER_BYTES);
+      const payload = data.subarray(offset + HEADER_BYTES, end);
+
+      if (!constantTimeEqual(expected, this.checksum(payload))) {
+        if (end === data.length) {
+          truncated = true;
+          break;
+        }
+
+        throw new NewZoneCoreError(
+          ERROR_CODES.LOG_CORRUPTED,
+          'Chain log record failed checksum before end of log',
+          { offset, recovered: documents.map(d => d.id) }
+        );
+      }
+
+      try {
+        documents.push(JSON.parse(new TextDecoder().decode(payload)) as Document);
+      } catch (e) {
+        throw new NewZoneCoreError(
+          ERROR_CODES.LOG_CORRUPTED,
+          'Chain log record is not valid JSON',
+          { offset, error: e }
+        );
+      }
+
+      offset = end;
+    }
+
+    return {
+      documents,
+      recovered: documents.map(d => d.id),
+      validLength: offset,
+      truncated
+    };
+  }
+
+  /**
+   * Record checksum
+   */
+  private static checksum(payload: Uint8Array): Uint8Array {
+    return Blake2b.hashWithDomain(CHECKSUM_DOMAIN, payload);
+  }
+}
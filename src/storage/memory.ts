@@ -0,0 +1,64 @@
+/**
+ * In-memory chain storage
+ * Volatile adapter for tests and ephemeral sessions
+ */
+
+import { ChainStorage, ChainStorageMeta, ChainStorageSnapshot, Document } from '../types.js';
+
+export class MemoryChainStorage implements ChainStorage {
+  #meta: ChainStorageMeta | null = null;
+  #documents: Document[] = [];
+
+  /**
+   * Load stored chain (null if nothing committed yet)
+   */
+  load(): ChainStorageSnapshot | null {
+    if (!this.#meta) {
+      return null;
+    }
+
+    return {
+      meta: { ...this.#meta },
+      documents: this.#documents.map(doc => this.#copy(doc))
+    };
+  }
+
+  /**
+   * Append committed document and update meta
+   */
+  append(document: Document, meta: ChainStorageMeta): void {
+    this.#documents.push(this.#copy(document));
+    this.#meta = { ...meta };
+  }
+
+  /**
+   * Append committed documents and update meta once
+   */
+  appendBatch(documents: Document[], meta: ChainStorageMeta): void {
+    this.#documents.push(...documents.map(doc => this.#copy(doc)));
+    this.#meta = { ...meta };
+  }
+
+  /**
+   * Replace stored chain entirely
+   */
+  replace(snapshot: ChainStorageSnapshot): void {
+    this.#documents = snapshot.documents.map(doc => this.#copy(doc));
+    this.#meta = { ...snapshot.meta };
+  }
+
+  /**
+   * Remove all stored state
+   */
+  clear(): void {
+    this.#documents = [];
+    this.#meta = null;
+  }
+
+  /**
+   * Detach stored copies from caller-owned objects
+   */
+  #copy(document: Document): Document {
+    return JSON.parse(JSON.stringify(document)) as Document;
+  }
+}
@@ -2,7 +2,7 @@
  * NewZoneCore - Core Type Definitions
  */
 
-import { CRYPTO_SUITE, DOCUMENT_VERSION, ERROR_CODES } from './constants.js';
+import { DOCUMENT_VERSION, ERROR_CODES } from './constants.js';
 
 // ============ Identity Types ============
 
@@ -12,12 +12,49 @@ export interface IdentityKeyPair {
   chainId: string;
 }
 
+// Produces Ed25519 signatures; the private key may live outside this process
+export interface Signer {
+  getPublicKey(): Uint8Array;
+  sign(message: Uint8Array): Promise<Uint8Array>;
+}
+
 export interface IdentityDerivationResult {
   seed: Uint8Array;
   rootKey: IdentityKeyPair;
   mnemonic?: string;
 }
 
+// Password-encrypted mnemonic entropy (see Keystore)
+export interface KeystoreFile {
+  version: number;
+  chain_id: string;
+  kdf: {
+    name: 'scrypt';
+    n: number;
+    r: number;
+    p: number;
+    salt: string;      // Hex
+  };
+  cipher: {
+    name: 'aes-256-gcm';
+    nonce: string;     // Hex, 12 bytes
+  };
+  ciphertext: string;  // Hex, includes 16-byte tag
+  verifier: string;    // Hex, password check independent of ciphertext
+}
+
+// Several keystores sharing one vault password (see IdentityKeyring)
+export interface KeyringEntry {
+  chain_id: string;
+  label: string;
+  keystore: KeystoreFile;
+}
+
+export interface KeyringVault {
+  version: number;
+  entries: KeyringEntry[];
+}
+
 // ============ Document Types ============
 
 export interface DocumentMetadata {
@@ -27,7 +64,7 @@ export interface DocumentMetadata {
   chain_id: string;
   parent_hash: string;
   logical_time: number;
-  crypto_suite: typeof CRYPTO_SUITE;
+  crypto_suite: CryptoSuiteId;
   created_at: string; // ISO8601, informational only
 }
 
@@ -36,6 +73,8 @@ export interface DocumentPayload {
 }
 
 export interface Document extends DocumentMetadata {
+  parent_hashes?: string[]; // Ordered parents of a merge; [0] is parent_hash
+  valid_until?: number; // Logical time, inclusive
   payload?: DocumentPayload;
   signature?: string;
   [key: string]: unknown; // Unknown fields preserved
@@ -52,13 +91,17 @@ export interface ValidationResult {
   cryptographic_valid: boolean;
   policy_valid: boolean;
   final: boolean;
+  expired?: boolean; // valid_until passed at currentTime
+  revoked?: boolean; // Revoked by a chain document at or before currentTime
+  codes?: ErrorCode[];
   errors?: string[];
   warnings?: string[];
 }
 
 export interface ValidationContext {
-  currentTime: number;
-  trustedKeys: Uint8Array[];
+  currentTime: number;       // Logical time; expiration and revocation are evaluated against it
+  trustedKeys: Uint8Array[]; // Root keys
+  chain?: Document[];        // Resolves rotated signing keys when provided
   policyEngine?: PolicyEngine;
 }
 
@@ -71,6 +114,7 @@ export interface PolicyEngine {
 export interface ChainState {
   chainId: string;
   lastHash: string;
+  heads: string[];     // DAG heads, linearization order
   logicalClock: number;
   documentCount: number;
   forks: ForkInfo[];
@@ -89,17 +133,67 @@ export interface LogicalClockState {
   version: string;
 }
 
+// ============ Storage Types ============
+
+/**
+ * Contents of meta.json (see specs/ENVIRONMENT.md)
+ * Single source of truth for logical_clock
+ */
+export interface ChainStorageMeta {
+  chain_id: string;
+  logical_clock: number;
+  last_state_hash: string;
+  head?: string; // Local head, if not last_state_hash (another device's branch was stored last)
+  version: string;
+}
+
+export interface ChainStorageSnapshot {
+  meta: ChainStorageMeta;
+  documents: Document[]; // Commit order
+}
+
+/**
+ * Result of replaying an append-only chain log
+ */
+export interface ChainLogReplay {
+  documents: Document[];
+  recovered: string[];  // Document IDs, log order
+  validLength: number;  // Bytes up to the last intact record
+  truncated: boolean;   // Torn final record was dropped
+}
+
+/**
+ * Persistence adapter for ChainStateManager
+ * Every method MUST be durable before returning
+ */
+export interface ChainStorage {
+  load(): ChainStorageSnapshot | null;
+  append(document: Document, meta: ChainStorageMeta): void;
+  appendBatch(documents: Document[], meta: ChainStorageMeta): void; // One commit for all
+  replace(snapshot: ChainStorageSnapshot): void;
+  clear(): void;
+}
+
 // ============ Crypto Types ============
 
 export type HashFunction = (data: Uint8Array) => Uint8Array;
 export type SignFunction = (data: Uint8Array, privateKey: Uint8Array) => Promise<Uint8Array>;
 export type VerifyFunction = (signature: Uint8Array, data: Uint8Array, publicKey: Uint8Array) => Promise<boolean>;
 
+export type DocumentIdFunction = (document: Partial<Document>) => string;
+
+export interface ScryptParams {
+  N: number;
+  r: number;
+  p: number;
+}
+
 export interface CryptoSuite {
-  id: typeof CRYPTO_SUITE;
+  id: CryptoSuiteId;
   hash: HashFunction;
   sign: SignFunction;
   verify: VerifyFunction;
+  deriveDocumentId: DocumentIdFunction;
   deriveKey: (seed: Uint8Array, salt: Uint8Array) => Uint8Array;
 }
 
@@ -131,10 +225,41 @@ export interface NewZoneCoreOptions {
   initialTime?: number;
   policyEngine?: PolicyEngine;
   rateLimit?: RateLimitConfig;
+  storage?: ChainStorage;
+  cryptoSuite?: CryptoSuiteId; // Active suite for new documents
+}
+
+export interface AutoLockOptions {
+  afterSignatures?: number; // Lock after this many signatures since unlock
+  idleMs?: number;          // Lock after this long without signing
+}
+
+export interface CreateDocumentOptions {
+  validUntil?: number; // Logical time after which the document expires
+}
+
+// NewZoneCore.resolveFork(): branch to keep and why
+export interface ForkResolutionOptions {
+  keep: string;        // ID of the conflicting document whose branch wins
+  resolution?: string; // Free-form reason, recorded in the merge document
+}
+
+// One entry of NewZoneCore.createDocuments()
+export interface DocumentDraft {
+  type: string;
+  payload?: DocumentPayload;
+  options?: CreateDocumentOptions;
+}
+
+// Unqueued chain mutations passed to NewZoneCore.withLock()
+export interface ChainTransaction {
+  createDocument(type: string, payload?: DocumentPayload, options?: CreateDocumentOptions): Promise<Document>;
+  createDocuments(drafts: DocumentDraft[]): Promise<Document[]>;
+  getChainState(): ChainState;
 }
 
 export interface NewZoneCoreInstance {
-  createDocument(type: string, payload?: DocumentPayload): Promise<Document>; // ИЗМЕНЕНО: теперь возвращает Promise
+  createDocument(type: string, payload?: DocumentPayload, options?: CreateDocumentOptions): Promise<Document>; // ИЗМЕНЕНО: теперь возвращает Promise
   verifyDocument(document: Document): Promise<ValidationResult>;
   getChainState(): ChainState;
   detectFork(): ForkInfo[];
@@ -142,3 +267,6 @@ export interface NewZoneCoreInstance {
 }
 
 export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES];
+
+// Registered suite identifier (see CryptoSuiteRegistry)
+export type CryptoSuiteId = string;
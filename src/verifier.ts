@@ -0,0 +1,151 @@
+/**
+ * NewZoneVerifier - Verifier-only mode
+ * For third parties that hold a chain but no mnemonic.
+ * Built from public material only; there is no code path that signs.
+ */
+
+import { IdentityDerivation } from './identity/derivation.js';
+import { DocumentValidator } from './document/validator.js';
+import { ChainStateManager, ChainImportReport } from './chain/state.js';
+import { ForkDetector } from './chain/fork.js';
+import { toHex } from './utils/encoding.js';
+import {
+  ChainState,
+  Document,
+  ForkInfo,
+  NewZoneCoreError,
+  ValidationResult
+} from './types.js';
+import { ERROR_CODES, KEY_LENGTHS } from './constants.js';
+
+export class NewZoneVerifier {
+  readonly #publicKey: Uint8Array;
+  readonly #validator = new DocumentValidator();
+  #chainState: ChainStateManager;
+
+  /**
+   * @param publicKey Root public key of the chain
+   * @param chainId Defaults to the chain ID derived from publicKey
+   */
+  constructor(publicKey: Uint8Array, chainId?: string) {
+    if (publicKey.length !== KEY_LENGTHS.PUBLIC_KEY) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.INVALID_KEY,
+        'Root public key must be 32 bytes'
+      );
+    }
+
+    this.#publicKey = publicKey.slice();
+    this.#chainState = new ChainStateManager(chainId ?? IdentityDerivation.deriveChainId(publicKey));
+  }
+
+  /**
+   * Verifier for the chain derived from a root public key
+   */
+  static fromPublicKey(publicKey: Uint8Array): NewZoneVerifier {
+    return new NewZoneVerifier(publicKey);
+  }
+
+  /**
+   * Verifier for a chain with an explicit chain ID (NewZoneCoreOptions.chainId)
+   */
+  static fromChainId(chainId: string, publicKey: Uint8Array): NewZoneVerifier {
+    return new NewZoneVerifier(publicKey, chainId);
+  }
+
+  /**
+   * Verifier holding an exported chain (NewZoneCore.exportState)
+   * @throws NewZoneCoreError VALIDATION_FAILED unless every document verifies
+   */
+  static async fromExport(state: Uint8Array, publicKey: Uint8Array): Promise<NewZoneVerifier> {
+    let chainId: unknown;
+    try {
+      chainId = JSON.parse(new TextDecoder().decode(state))?.chainId;
+    } catch (e) {
+      throw new NewZoneCoreError(ERROR_CODES.VALIDATION_FAILED, 'Invalid state encoding', { error: e });
+    }
+
+    if (typeof chainId !== 'string') {
+      throw new NewZoneCoreError(ERROR_CODES.VALIDATION_FAILED, 'Exported state has no chain ID');
+    }
+
+    const verifier = new NewZoneVerifier(publicKey, chainId);
+    const report = await verifier.verifyChain(state);
+
+    if (!report.valid) {
+      throw new NewZoneCoreError(
+        ERROR_CODES.VALIDATION_FAILED,
+        'Exported chain failed verification',
+        { rejected: report.rejected, errors: report.errors }
+      );
+    }
+
+    return verifier;
+  }
+
+  /**
+   * Verify document against the root key and held chain
+   */
+  async verifyDocument(document: Document): Promise<ValidationResult> {
+    return this.#validator.validate(document, {
+      currentTime: this.#chainState.clock.current,
+      trustedKeys: [this.#publicKey],
+      chain: this.#chainState.documents
+    });
+  }
+
+  /**
+   * Verify an exported chain; it replaces the held chain only if valid
+   */
+  async verifyChain(state: Uint8Array): Promise<ChainImportReport> {
+    const report = await ChainStateManager.importVerified(
+      state,
+      this.#chainState.chainId,
+      this.#publicKey
+    );
+
+    if (report.valid) {
+      this.#chainState = report.manager;
+    }
+
+    return report;
+  }
+
+  /**
+   * Detect forks in the held chain
+   */
+  detectFork(): ForkInfo[] {
+    return ForkDetector.scan(this.#chainState.documents).map(fork => ({
+      ...fork,
+      detectedAt: this.#chainState.clock.current
+    }));
+  }
+
+  getChainState(): ChainState {
+    return this.#chainState.getState();
+  }
+
+  getDocument(id: string): Document | undefined {
+    return this.#chainState.getDocument(id);
+  }
+
+  getDocuments(options?: Parameters<ChainStateManager['getDocumentsPaginated']>[0]): ReturnType<ChainStateManager['getDocumentsPaginated']> {
+    return this.#chainState.getDocumentsPaginated(options);
+  }
+
+  getDocumentsByType(type: string, options?: { limit?: number; offset?: number }): ReturnType<ChainStateManager['getDocumentsByType']> {
+    return this.#chainState.getDocumentsByType(type, options);
+  }
+
+  getPublicKey(): Uint8Array {
+    return this.#publicKey.slice();
+  }
+
+  getPublicKeyHex(): string {
+    return toHex(this.#publicKey);
+  }
+
+  getChainId(): string {
+    return this.#chainState.chainId;
+  }
+}
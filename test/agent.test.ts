@@ -0,0 +1,134 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  NewZoneCore,
+  LocalSigner,
+  ERROR_CODES
+} from '../src/index.js';
+import { SigningAgent, AgentSigner, AgentSignRequest } from '../src/node.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+test('Signing agent', async (t) => {
+  const dir = mkdtempSync(join(tmpdir(), 'nzcore-agent-'));
+  const socketPath = join(dir, 'agent.sock');
+  const logFile = join(dir, 'signatures.log');
+  const confirmations: AgentSignRequest[] = [];
+  const token = 'notes-secret';
+  let approve = false;
+
+  const identity = await NewZoneCore.create(TEST_MNEMONIC);
+  const keystore = await identity.exportKeystore('agent pw', { N: 1024, r: 8, p: 1 });
+  identity.destroy();
+
+  const agent = await SigningAgent.fromKeystore(
+    keystore,
+    'agent pw',
+    {
+      policy: {
+        clients: { notes: { token, allow: ['note'], confirm: ['payment'] } },
+        default: { allow: [] }
+      },
+      confirm: request => {
+        confirmations.push(request);
+        return approve;
+      },
+      logFile
+    }
+  );
+  await agent.listen(socketPath);
+
+  await t.test('Client signs allowlisted documents through the agent', async () => {
+    const signer = await AgentSigner.connect(socketPath, 'notes', token);
+    const core = await NewZoneCore.fromSigner(signer);
+    const local = await NewZoneCore.create(TEST_MNEMONIC);
+
+    assert.strictEqual(core.getChainId(), local.getChainId());
+
+    const doc = await core.createDocument('note', { text: 'hi' });
+    assert.strictEqual((await local.verifyDocument(doc)).final, true);
+
+    const [entry] = agent.signatures;
+    assert.strictEqual(entry?.client, 'notes');
+    assert.strictEqual(entry?.documentId, doc.id);
+    assert.strictEqual(entry?.signature, doc.signature);
+    assert.strictEqual(JSON.parse(readFileSync(logFile, 'utf8').trim()).documentId, doc.id);
+
+    signer.close();
+    local.destroy();
+  });
+
+  await t.test('Types outside the policy are denied', async () => {
+    const signer = await AgentSigner.connect(socketPath, 'notes', token);
+    const core = await NewZoneCore.fromSigner(signer);
+
+    await assert.rejects(() => core.createDocument('key-rotation', {}), { code: ERROR_CODES.AGENT_DENIED });
+    assert.strictEqual(core.getChainState().documentCount, 0);
+
+    const other = await AgentSigner.connect(socketPath, 'browser');
+    const otherCore = await NewZoneCore.fromSigner(other);
+    await assert.rejects(() => otherCore.createDocument('note', {}), { code: ERROR_CODES.AGENT_DENIED });
+
+    signer.close();
+    other.close();
+  });
+
+  await t.test('A configured client name needs its token', async () => {
+    await assert.rejects(() => AgentSigner.connect(socketPath, 'notes'), { code: ERROR_CODES.AGENT_DENIED });
+    await assert.rejects(() => AgentSigner.connect(socketPath, 'notes', 'guess'), { code: ERROR_CODES.AGENT_DENIED });
+    await assert.rejects(() => AgentSigner.connect(socketPath, 'browser', token), { code: ERROR_CODES.AGENT_DENIED });
+  });
+
+  await t.test('Socket is private and only a stale socket is replaced', async () => {
+    assert.strictEqual(statSync(socketPath).mode & 0o777, 0o600);
+
+    const file = join(dir, 'not-a-socket');
+    writeFileSync(file, 'keep me');
+    const other = new SigningAgent(await LocalSigner.fromMnemonic(TEST_MNEMONIC), { policy: {} });
+    await assert.rejects(() => other.listen(file), { code: ERROR_CODES.VALIDATION_FAILED });
+    assert.strictEqual(readFileSync(file, 'utf8'), 'keep me');
+    await other.close();
+  });
+
+  await t.test('Confirmation types ask the confirm callback', async () => {
+    const signer = await AgentSigner.connect(socketPath, 'notes', token);
+    const core = await NewZoneCore.fromSigner(signer);
+
+    approve = false;
+    await assert.rejects(() => core.createDocument('payment', { amount: 1 }), { code: ERROR_CODES.AGENT_DENIED });
+
+    approve = true;
+    const doc = await core.createDocument('payment', { amount: 1 });
+    assert.strictEqual(agent.signatures.at(-1)?.confirmed, true);
+    assert.deepStrictEqual(confirmations.map(c => c.type), ['payment', 'payment']);
+    assert.strictEqual(confirmations[1]?.documentId, doc.id);
+
+    signer.close();
+  });
+
+  await t.test('Only canonical unsigned documents are signed', async () => {
+    const signer = await AgentSigner.connect(socketPath, 'notes', token);
+    await assert.rejects(
+      () => signer.sign(new TextEncoder().encode('{"type": "note"}')),
+      { code: ERROR_CODES.NON_CANONICAL_JSON }
+    );
+    await assert.rejects(
+      () => signer.sign(new TextEncoder().encode('{"type":"note"}')),
+      { code: ERROR_CODES.VALIDATION_FAILED }
+    );
+    signer.close();
+  });
+
+  await t.test('Closed agent is unavailable', async () => {
+    const signer = await AgentSigner.connect(socketPath, 'notes', token);
+    await agent.close();
+
+    await assert.rejects(() => signer.sign(new Uint8Array(1)), { code: ERROR_CODES.AGENT_UNAVAILABLE });
+    await assert.rejects(() => AgentSigner.connect(socketPath, 'notes', token), { code: ERROR_CODES.AGENT_UNAVAILABLE });
+  });
+
+  rmSync(dir, { recursive: true, force: true });
+});
@@ -0,0 +1,152 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  NewZoneCore,
+  MemoryChainStorage,
+  Ed25519,
+  ERROR_CODES
+} from '../src/index.js';
+import { FileSystemChainStorage } from '../src/node.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+test('Atomic batch creation', async (t) => {
+  await t.test('Appends a linear batch', async () => {
+    const core = await NewZoneCore.create(TEST_MNEMONIC);
+    const clock = core.getChainState().logicalClock;
+
+    const docs = await core.createDocuments([
+      { type: 'item', payload: { n: 1 } },
+      { type: 'item', payload: { n: 2 } },
+      { type: 'item', payload: { n: 3 }, options: { validUntil: 100 } }
+    ]);
+
+    assert.strictEqual(docs.length, 3);
+    assert.strictEqual(docs[1]?.parent_hash, docs[0]?.id);
+    assert.strictEqual(docs[2]?.valid_until, 100);
+    assert.strictEqual(core.getChainState().logicalClock, clock + 3);
+    for (const doc of docs) {
+      assert.strictEqual((await core.verifyDocument(doc)).final, true);
+    }
+
+    core.destroy();
+  });
+
+  await t.test('Failure rolls back chain, clock, forks and storage', async () => {
+    const source = await NewZoneCore.create(TEST_MNEMONIC);
+    const base = await source.createDocument('item', { base: true });
+    const branch = await NewZoneCore.create(TEST_MNEMONIC);
+    await branch.importStateVerified(source.exportState());
+    const sibling = await branch.createDocument('item', { branch: true });
+    await source.createDocument('item', { main: true });
+
+    // Start from a chain that already contains a fork
+    const forked = JSON.parse(new TextDecoder().decode(source.exportState()));
+    forked.documents.push([sibling.id, sibling]);
+
+    const storage = new MemoryChainStorage();
+    const core = await NewZoneCore.create(TEST_MNEMONIC, { storage });
+    core.importState(new TextEncoder().encode(JSON.stringify(forked)));
+
+    const before = core.getChainState();
+    const stored = storage.load();
+    assert.strictEqual(before.forks.length, 1);
+    assert.strictEqual(before.forks[0]?.parentHash, base.id);
+
+    await assert.rejects(
+      () => core.createDocuments([
+        { type: 'item', payload: { n: 1 } },
+        { type: 'item', payload: { n: 2 } },
+        { type: 'item', payload: { n: 3 }, options: { validUntil: 1 } }
+      ]),
+      { code: ERROR_CODES.LOGICAL_TIME_VIOLATION }
+    );
+
+    assert.deepStrictEqual(core.getChainState(), before);
+    assert.deepStrictEqual(storage.load(), stored);
+
+    const next = await core.createDocument('item', { after: true });
+    assert.strictEqual(next.parent_hash, before.lastHash);
+
+    source.destroy();
+    branch.destroy();
+    core.destroy();
+  });
+
+  await t.test('Signer failure mid-batch rolls back', async () => {
+    const keyPair = await Ed25519.generateKeyPair();
+    let calls = 0;
+    const core = await NewZoneCore.fromSigner({
+      getPublicKey: () => keyPair.publicKey,
+      sign: async message => {
+        if (++calls === 2) throw new Error('device unplugged');
+        return Ed25519.sign(message, keyPair.privateKey);
+      }
+    });
+
+    const before = core.getChainState();
+    await assert.rejects(() => core.createDocuments([{ type: 'a' }, { type: 'b' }]), /device unplugged/);
+    assert.deepStrictEqual(core.getChainState(), before);
+
+    const [doc] = await core.createDocuments([{ type: 'a' }]);
+    assert.strictEqual(doc?.logical_time, before.logicalClock + 1);
+
+    core.destroy();
+  });
+
+  await t.test('Storage receives the batch as one commit', async () => {
+    const calls: string[] = [];
+    class RecordingStorage extends MemoryChainStorage {
+      override append(...args: Parameters<MemoryChainStorage['append']>): void {
+        calls.push('append');
+        super.append(...args);
+      }
+      override appendBatch(...args: Parameters<MemoryChainStorage['appendBatch']>): void {
+        calls.push(`appendBatch:${args[0].length}`);
+        super.appendBatch(...args);
+      }
+      override replace(...args: Parameters<MemoryChainStorage['replace']>): void {
+        calls.push('replace');
+        super.replace(...args);
+      }
+    }
+
+    const storage = new RecordingStorage();
+    const core = await NewZoneCore.create(TEST_MNEMONIC, { storage });
+    calls.length = 0;
+
+    const docs = await core.createDocuments([{ type: 'a' }, { type: 'b' }, { type: 'c' }]);
+    assert.deepStrictEqual(calls, ['appendBatch:3']);
+    assert.strictEqual(storage.load()?.meta.last_state_hash, docs[2]?.id);
+    assert.strictEqual(storage.load()?.meta.logical_clock, core.getChainState().logicalClock);
+
+    await assert.rejects(() => core.createDocuments([{ type: 'a' }, { type: 'b', options: { validUntil: 1 } }]));
+    assert.deepStrictEqual(calls, ['appendBatch:3']);
+
+    core.destroy();
+  });
+
+  await t.test('Filesystem storage is restored', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'nzcore-batch-'));
+    try {
+      const core = await NewZoneCore.create(TEST_MNEMONIC, { storage: new FileSystemChainStorage(dir) });
+      await core.createDocument('item', { kept: true });
+      const before = core.getChainState();
+
+      await assert.rejects(() => core.createDocuments([
+        { type: 'item' },
+        { type: 'item', options: { validUntil: 1 } }
+      ]));
+      core.destroy();
+
+      const reopened = await NewZoneCore.create(TEST_MNEMONIC, { storage: new FileSystemChainStorage(dir) });
+      assert.deepStrictEqual(reopened.getChainState(), before);
+      reopened.destroy();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,97 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, readFileSync, appendFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  NewZoneCore,
+  ChainLog,
+  ChainStateManager,
+  ERROR_CODES
+} from '../src/index.js';
+import { FileSystemChainStorage } from '../src/node.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+test('Append-only chain log', async (t) => {
+  const core = await NewZoneCore.create(TEST_MNEMONIC);
+  const docs = [];
+  for (let i = 0; i < 3; i++) {
+    docs.push(await core.createDocument('test', { index: i }));
+  }
+  const log = ChainStateManager.import(core.exportState(), core.getChainId()).exportLog();
+
+  await t.test('Replays intact log', () => {
+    const replay = ChainStateManager.replay(log, core.getChainId());
+
+    assert.deepStrictEqual(replay.recovered, docs.map(d => d.id));
+    assert.strictEqual(replay.truncated, false);
+    assert.strictEqual(replay.manager.getLastHash(), docs[2].id);
+    assert.strictEqual(replay.manager.clock.current, docs[2].logical_time);
+  });
+
+  await t.test('Replay keeps the head when another branch was ingested last', async () => {
+    const laptop = await NewZoneCore.create(TEST_MNEMONIC);
+    const phone = await NewZoneCore.create(TEST_MNEMONIC);
+
+    await laptop.createDocument('note', { device: 'laptop', n: 1 });
+    const l2 = await laptop.createDocument('note', { device: 'laptop', n: 2 });
+    await laptop.ingestDocument(await phone.createDocument('note', { device: 'phone', n: 1 }));
+
+    const exported = ChainStateManager.import(laptop.exportState(), laptop.getChainId()).exportLog();
+    const { manager } = ChainStateManager.replay(exported, laptop.getChainId());
+    assert.strictEqual(manager.getLastHash(), l2.id);
+    assert.strictEqual(manager.clock.current, laptop.getChainState().logicalClock);
+
+    laptop.destroy();
+    phone.destroy();
+  });
+
+  await t.test('Truncates torn final record', () => {
+    const torn = log.slice(0, log.length - 10);
+    const replay = ChainStateManager.replay(torn, core.getChainId());
+
+    assert.deepStrictEqual(replay.recovered, docs.slice(0, 2).map(d => d.id));
+    assert.strictEqual(replay.truncated, true);
+    assert.strictEqual(replay.validLength, ChainLog.encode(docs.slice(0, 2)).length);
+  });
+
+  await t.test('Refuses mid-log checksum failure', () => {
+    const corrupted = log.slice();
+    const first = ChainLog.encodeRecord(docs[0]);
+    corrupted[first.length - 5] ^= 0xff;
+
+    assert.throws(
+      () => ChainLog.decode(corrupted),
+      { code: ERROR_CODES.LOG_CORRUPTED }
+    );
+  });
+
+  await t.test('Filesystem storage recovers from torn append', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'nzcore-log-'));
+
+    try {
+      const persisted = await NewZoneCore.create(TEST_MNEMONIC, {
+        storage: new FileSystemChainStorage(root)
+      });
+      const head = await persisted.createDocument('test', {});
+      persisted.destroy();
+
+      // Simulate crash mid-write of the next record
+      const logPath = join(root, 'factchain', 'chain.log');
+      const intact = readFileSync(logPath);
+      appendFileSync(logPath, ChainLog.encodeRecord(docs[1]).slice(0, 20));
+
+      const reopened = await NewZoneCore.create(TEST_MNEMONIC, {
+        storage: new FileSystemChainStorage(root)
+      });
+      assert.strictEqual(reopened.getChainState().lastHash, head.id);
+      assert.deepStrictEqual(readFileSync(logPath), intact);
+      reopened.destroy();
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  core.destroy();
+});
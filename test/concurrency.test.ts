@@ -0,0 +1,190 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import { setTimeout as sleep } from 'node:timers/promises';
+import {
+  NewZoneCore,
+  NewZoneVerifier,
+  Ed25519,
+  ChainTransaction,
+  Document,
+  Signer,
+  MemoryChainStorage,
+  ERROR_CODES
+} from '../src/index.js';
+
+// Signer with random latency so concurrent calls finish out of order
+const jitterySigner = async (): Promise<Signer> => {
+  const keyPair = await Ed25519.generateKeyPair();
+  return {
+    getPublicKey: () => keyPair.publicKey,
+    sign: async message => {
+      await sleep(Math.floor(Math.random() * 3));
+      return Ed25519.sign(message, keyPair.privateKey);
+    }
+  };
+};
+
+const assertLinear = (docs: Document[], genesis: string) => {
+  let parent = genesis;
+  let time = docs[0]!.logical_time;
+  for (const doc of docs) {
+    assert.strictEqual(doc.parent_hash, parent);
+    assert.strictEqual(doc.logical_time, time++);
+    parent = doc.id;
+  }
+};
+
+test('Commit queue', async (t) => {
+  await t.test('Concurrent creates produce a linear chain', async () => {
+    const signer = await jitterySigner();
+    const core = await NewZoneCore.fromSigner(signer);
+    const genesis = core.getChainState().lastHash;
+
+    const docs = await Promise.all(
+      Array.from({ length: 100 }, (_, n) => core.createDocument('note', { n }))
+    );
+
+    // Submission order is commit order
+    assert.deepStrictEqual(docs.map(doc => doc.payload?.['n']), docs.map((_, n) => n));
+    assertLinear(docs, genesis);
+
+    const state = core.getChainState();
+    assert.strictEqual(state.documentCount, 100);
+    assert.strictEqual(state.lastHash, docs[99]!.id);
+    assert.deepStrictEqual(core.detectFork(), []);
+
+    const verifier = NewZoneVerifier.fromPublicKey(signer.getPublicKey());
+    assert.strictEqual((await verifier.verifyChain(core.exportState())).valid, true);
+
+    core.destroy();
+  });
+
+  await t.test('Batches, revocations and creates interleave without forks', async () => {
+    const core = await NewZoneCore.fromSigner(await jitterySigner());
+    const first = await core.createDocument('note', { n: 0 });
+
+    const results = await Promise.all([
+      core.createDocuments([{ type: 'a' }, { type: 'b' }, { type: 'c' }]),
+      core.createDocument('note', { n: 1 }),
+      core.revokeDocuments([first.id]),
+      core.createDocuments([{ type: 'd' }, { type: 'e' }])
+    ]);
+
+    assertLinear([first, ...results.flat()], first.parent_hash);
+    assert.strictEqual(core.getChainState().documentCount, 8);
+    assert.deepStrictEqual(core.detectFork(), []);
+
+    core.destroy();
+  });
+
+  await t.test('Failed operation does not block the queue', async () => {
+    const keyPair = await Ed25519.generateKeyPair();
+    let fail = true;
+    const core = await NewZoneCore.fromSigner({
+      getPublicKey: () => keyPair.publicKey,
+      sign: async message => {
+        if (fail) {
+          fail = false;
+          throw new Error('device unplugged');
+        }
+        return Ed25519.sign(message, keyPair.privateKey);
+      }
+    });
+
+    const [failed, next] = await Promise.allSettled([
+      core.createDocument('note', { n: 1 }),
+      core.createDocument('note', { n: 2 })
+    ]);
+
+    assert.strictEqual(failed.status, 'rejected');
+    assert.strictEqual(next.status, 'fulfilled');
+    assert.strictEqual(core.getChainState().documentCount, 1);
+
+    core.destroy();
+  });
+
+  await t.test('Failed storage write leaves the clock in place', async () => {
+    let fail = false;
+    class FlakyStorage extends MemoryChainStorage {
+      override append(...args: Parameters<MemoryChainStorage['append']>): void {
+        if (fail) {
+          throw new Error('disk full');
+        }
+        super.append(...args);
+      }
+    }
+
+    const core = await NewZoneCore.fromSigner(await jitterySigner(), { storage: new FlakyStorage() });
+    const first = await core.createDocument('note', { n: 1 });
+
+    fail = true;
+    await assert.rejects(() => core.createDocument('note', { n: 2 }), /disk full/);
+    fail = false;
+
+    const next = await core.createDocument('note', { n: 3 });
+    assert.strictEqual(next.parent_hash, first.id);
+    assert.strictEqual(next.logical_time, first.logical_time + 1);
+
+    core.destroy();
+  });
+
+  await t.test('Head moved while signing: document is rebuilt on the new head', async () => {
+    const keyPair = await Ed25519.generateKeyPair();
+    let onSign: (() => void) | undefined;
+    const core = await NewZoneCore.fromSigner({
+      getPublicKey: () => keyPair.publicKey,
+      sign: async message => {
+        onSign?.();
+        await sleep(1);
+        return Ed25519.sign(message, keyPair.privateKey);
+      }
+    });
+    const prepared = await core.prepareDocument('note', { prepared: true });
+
+    const signing = new Promise<void>(resolve => { onSign = resolve; });
+    const pending = core.createDocument('note', { queued: true });
+    await signing;
+    onSign = undefined;
+    core.commitDocument(prepared);
+
+    const doc = await pending;
+    assert.strictEqual(doc.parent_hash, prepared.id);
+    assert.strictEqual(doc.logical_time, prepared.logical_time + 1);
+    assert.strictEqual((await core.verifyDocument(doc)).final, true);
+
+    core.destroy();
+  });
+
+  await t.test('withLock runs multi-step operations without interleaving', async () => {
+    const core = await NewZoneCore.fromSigner(await jitterySigner());
+
+    const locked = core.withLock(async tx => {
+      const head = tx.getChainState().lastHash;
+      const request = await tx.createDocument('request', { head });
+      await sleep(5);
+      const [approval] = await tx.createDocuments([{ type: 'approval', payload: { request: request.id } }]);
+      return [request, approval!];
+    });
+    const outside = core.createDocument('note', { outside: true });
+
+    const [[request, approval], note] = await Promise.all([locked, outside]);
+    assert.strictEqual(approval.parent_hash, request.id);
+    assert.strictEqual(note.parent_hash, approval.id);
+
+    core.destroy();
+  });
+
+  await t.test('Transaction is closed after withLock returns', async () => {
+    const core = await NewZoneCore.fromSigner(await jitterySigner());
+
+    let leaked: ChainTransaction | undefined;
+    await core.withLock(tx => {
+      leaked = tx;
+    });
+
+    await assert.rejects(() => leaked!.createDocument('note'), { code: ERROR_CODES.VALIDATION_FAILED });
+    assert.strictEqual(core.getChainState().documentCount, 0);
+
+    core.destroy();
+  });
+});
@@ -0,0 +1,62 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import {
+  NewZoneCore,
+  ChainStateManager,
+  CryptoSuiteRegistry,
+  DocumentValidator,
+  CRYPTO_SUITE,
+  CRYPTO_SUITE_V2,
+  ERROR_CODES
+} from '../src/index.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+test('Crypto suite registry', async (t) => {
+  await t.test('Built-in suites are registered and immutable', () => {
+    assert.deepStrictEqual(CryptoSuiteRegistry.list(), [CRYPTO_SUITE, CRYPTO_SUITE_V2]);
+
+    assert.throws(
+      () => CryptoSuiteRegistry.register({ ...CryptoSuiteRegistry.get(CRYPTO_SUITE) }),
+      { code: ERROR_CODES.CRYPTO_SUITE_MISMATCH }
+    );
+  });
+
+  await t.test('Unknown active suite is rejected', async () => {
+    await assert.rejects(
+      NewZoneCore.create(TEST_MNEMONIC, { cryptoSuite: 'nzcore-crypto-99' }),
+      { code: ERROR_CODES.CRYPTO_SUITE_MISMATCH }
+    );
+  });
+
+  await t.test('Chain mixing two suites verifies end to end', async () => {
+    const legacy = await NewZoneCore.create(TEST_MNEMONIC, { cryptoSuite: CRYPTO_SUITE });
+    await legacy.createDocument('test', { index: 0 });
+    await legacy.createDocument('test', { index: 1 });
+
+    const current = await NewZoneCore.create(TEST_MNEMONIC);
+    const report = await current.importStateVerified(legacy.exportState());
+    assert.strictEqual(report.valid, true);
+
+    await current.createDocument('test', { index: 2 });
+    await current.createDocument('test', { index: 3 });
+
+    const manager = ChainStateManager.import(current.exportState(), current.getChainId());
+    const documents = manager.documents;
+
+    assert.deepStrictEqual(
+      documents.map(d => d.crypto_suite),
+      [CRYPTO_SUITE, CRYPTO_SUITE, CRYPTO_SUITE_V2, CRYPTO_SUITE_V2]
+    );
+    assert.strictEqual(manager.verifyIntegrity(), true);
+    assert.strictEqual(new DocumentValidator().validateChain(documents), true);
+
+    for (const doc of documents) {
+      const result = await current.verifyDocument(doc);
+      assert.strictEqual(result.final, true, `${doc.crypto_suite} document should verify`);
+    }
+
+    legacy.destroy();
+    current.destroy();
+  });
+});
@@ -0,0 +1,121 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import {
+  NewZoneCore,
+  ChainStateManager,
+  ChainDag,
+  DocumentBuilder,
+  DocumentValidator,
+  ForkDetector,
+  CanonicalJSON,
+  LocalSigner,
+  Document,
+  toHex,
+  ERROR_CODES,
+  DEFAULT_CRYPTO_SUITE
+} from '../src/index.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+// Signed merge document joining the given parents
+const merge = async (chainId: string, parents: string[], logicalTime: number): Promise<Document> => {
+  const doc = await new DocumentBuilder()
+    .setType('merge')
+    .setChainId(chainId)
+    .setParentHashes(parents)
+    .setLogicalTime(logicalTime)
+    .setCryptoSuite(DEFAULT_CRYPTO_SUITE)
+    .setPayload({})
+    .build();
+
+  const signer = await LocalSigner.fromMnemonic(TEST_MNEMONIC);
+  doc.signature = toHex(await signer.sign(new TextEncoder().encode(CanonicalJSON.serialize(doc))));
+  signer.destroy();
+  return doc;
+};
+
+test('Document DAG', async (t) => {
+  // base <- laptop, base <- phone: two heads
+  const laptop = await NewZoneCore.create(TEST_MNEMONIC);
+  const phone = await NewZoneCore.create(TEST_MNEMONIC);
+  const chainId = laptop.getChainId();
+
+  const base = await laptop.createDocument('note', { base: true });
+  await phone.ingestDocument(base);
+  const left = await laptop.createDocument('note', { device: 'laptop' });
+  const right = await phone.createDocument('note', { device: 'phone', extra: 1 });
+
+  await t.test('Diverged chain has one head per branch', async () => {
+    await laptop.ingestDocument(right);
+    const state = laptop.getChainState();
+
+    assert.deepStrictEqual([...state.heads].sort(), [left.id, right.id].sort());
+    assert.strictEqual(state.forks.length, 1);
+  });
+
+  await t.test('Merge document joins the heads', async () => {
+    const joined = await merge(chainId, [left.id, right.id], Math.max(left.logical_time, right.logical_time) + 1);
+    assert.strictEqual(joined.parent_hash, left.id);
+
+    await laptop.ingestDocument(joined);
+    assert.deepStrictEqual(laptop.getChainState().heads, [joined.id]);
+
+    const next = await laptop.createDocument('note', { after: 'merge' });
+    assert.strictEqual(next.parent_hash, joined.id);
+    assert.deepStrictEqual(laptop.getChainState().heads, [next.id]);
+
+    const manager = ChainStateManager.import(laptop.exportState(), chainId);
+    assert.strictEqual(manager.verifyIntegrity(), true);
+    assert.strictEqual(new DocumentValidator().validateChain(manager.documents), true);
+  });
+
+  await t.test('Linearization is the same on every replica', async () => {
+    const documents = ChainStateManager.import(laptop.exportState(), chainId).documents;
+    const order = ChainDag.linearize(documents).map(doc => doc.id);
+
+    assert.deepStrictEqual(ChainDag.linearize([...documents].reverse()).map(doc => doc.id), order);
+    assert.strictEqual(order[0], base.id);
+    assert.deepStrictEqual(order.slice(1, 3), [left, right].sort((a, b) =>
+      (a.logical_time - b.logical_time) || (a.id < b.id ? -1 : 1)).map(doc => doc.id));
+
+    // Every parent precedes its child
+    for (const doc of documents) {
+      for (const parent of ChainDag.parents(doc).filter(hash => order.includes(hash))) {
+        assert.ok(order.indexOf(parent) < order.indexOf(doc.id));
+      }
+    }
+  });
+
+  await t.test('Broken DAGs fail integrity checks', async () => {
+    const documents = ChainStateManager.import(laptop.exportState(), chainId).documents;
+    const withoutBranch = documents.filter(doc => doc.id !== right.id);
+
+    assert.throws(() => ChainDag.linearize(withoutBranch), { code: ERROR_CODES.ORPHAN_PARENT });
+    assert.strictEqual(new DocumentValidator().validateChain(withoutBranch), false);
+
+    const early = await merge(chainId, [left.id, right.id], left.logical_time);
+    assert.throws(() => ChainDag.linearize([...documents, early]), { code: ERROR_CODES.LOGICAL_TIME_VIOLATION });
+    await assert.rejects(() => laptop.ingestDocument(early), { code: ERROR_CODES.LOGICAL_TIME_VIOLATION });
+  });
+
+  await t.test('Malformed parent lists are rejected', async () => {
+    await assert.rejects(() => merge(chainId, [left.id], 10), { code: ERROR_CODES.VALIDATION_FAILED });
+    await assert.rejects(() => merge(chainId, [left.id, left.id], 10), { code: ERROR_CODES.VALIDATION_FAILED });
+
+    const joined = await merge(chainId, [left.id, right.id], 10);
+    const reordered = { ...joined, parent_hash: right.id };
+    assert.strictEqual(ChainDag.checkParents(reordered), 'parent_hashes[0] must equal parent_hash');
+    assert.strictEqual((await laptop.verifyDocument(reordered)).structural_valid, false);
+  });
+
+  await t.test('createMergeDocument names the conflicting hashes as parents', () => {
+    const draft = ForkDetector.createMergeDocument([left.id, right.id, left.id], { keep: left.id });
+
+    assert.strictEqual(draft.parent_hash, left.id);
+    assert.deepStrictEqual(draft.parent_hashes, [left.id, right.id]);
+    assert.throws(() => ForkDetector.createMergeDocument([left.id, left.id], {}), { code: ERROR_CODES.FORK_DETECTED });
+  });
+
+  laptop.destroy();
+  phone.destroy();
+});
@@ -0,0 +1,139 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import {
+  NewZoneCore,
+  DocumentBuilder,
+  DelegationSet,
+  LocalSigner,
+  Ed25519,
+  Document,
+  ERROR_CODES
+} from '../src/index.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+test('Delegated device keys', async (t) => {
+  const core = await NewZoneCore.create(TEST_MNEMONIC);
+  const device = await Ed25519.generateKeyPair();
+
+  const delegation = await core.delegate(device.publicKey, {
+    allowedTypes: ['note'],
+    validUntil: 20
+  });
+
+  // Device-side: build on a known head and sign with the delegate key
+  const deviceDocument = async (type: string, parent: Document, logicalTime: number): Promise<Document> => {
+    const doc = await new DocumentBuilder()
+      .setType(type)
+      .setChainId(core.getChainId())
+      .setParentHash(parent.id)
+      .setLogicalTime(logicalTime)
+      .setPayload({ from: 'phone' })
+      .build();
+    return DelegationSet.sign(doc, device.privateKey);
+  };
+
+  await t.test('Delegation verifies and is parsed from the chain', async () => {
+    assert.strictEqual((await core.verifyDocument(delegation)).final, true);
+
+    const parsed = DelegationSet.parse(delegation.payload);
+    assert.ok(parsed);
+    assert.deepStrictEqual(parsed.allowedTypes, ['note']);
+    assert.strictEqual(parsed.validFrom, delegation.logical_time + 1);
+  });
+
+  await t.test('Delegate may sign allowed types within the window', async () => {
+    const doc = await deviceDocument('note', delegation, delegation.logical_time + 1);
+    const result = await core.verifyDocument(doc);
+    assert.strictEqual(result.final, true, result.errors?.join('; '));
+  });
+
+  await t.test('Delegate is denied other types and reserved types', async () => {
+    for (const type of ['profile', 'revocation', 'delegation', 'key-rotation']) {
+      const doc = await deviceDocument(type, delegation, delegation.logical_time + 1);
+      const result = await core.verifyDocument(doc);
+      assert.strictEqual(result.cryptographic_valid, false, type);
+    }
+
+    const doc = await deviceDocument('profile', delegation, delegation.logical_time + 1);
+    const result = await core.verifyDocument(doc);
+    assert.deepStrictEqual(result.codes, [ERROR_CODES.DELEGATION_DENIED]);
+  });
+
+  await t.test('Delegate is denied outside the window', async () => {
+    const doc = await deviceDocument('note', delegation, 21);
+    const result = await core.verifyDocument(doc);
+    assert.strictEqual(result.final, false);
+    assert.ok(result.errors?.some(e => e.includes('not valid at logical time 21')));
+  });
+
+  await t.test('Device core signs through the queue with the delegate key', async () => {
+    const phone = await NewZoneCore.fromDelegate(new LocalSigner(await Ed25519.generateKeyPair()), core.getPublicKey());
+    assert.strictEqual(phone.getChainId(), core.getChainId());
+    await assert.rejects(() => phone.createDocument('note', {}), { code: ERROR_CODES.DELEGATION_DENIED });
+    phone.destroy();
+
+    const tablet = await NewZoneCore.fromDelegate(
+      new LocalSigner({ publicKey: device.publicKey, privateKey: device.privateKey.slice() }),
+      core.getPublicKey()
+    );
+    assert.strictEqual(tablet.getChainId(), core.getChainId());
+    assert.deepStrictEqual(tablet.getPublicKey(), core.getPublicKey());
+    assert.deepStrictEqual(tablet.getSigningPublicKey(), device.publicKey);
+
+    // Delegation must be on the device's chain before it can sign
+    await assert.rejects(() => tablet.createDocument('note', {}), { code: ERROR_CODES.DELEGATION_DENIED });
+    assert.strictEqual((await tablet.importStateVerified(core.exportState())).valid, true);
+
+    const head = core.getChainState().lastHash;
+    const [first, second] = await Promise.all([
+      tablet.createDocument('note', { n: 1 }),
+      tablet.createDocument('note', { n: 2 })
+    ]);
+    assert.strictEqual(first?.parent_hash, head);
+    assert.strictEqual(second?.parent_hash, first?.id);
+    assert.strictEqual(second.logical_time, first.logical_time + 1);
+
+    await core.ingestDocument(first);
+    await core.ingestDocument(second);
+    assert.strictEqual(core.getChainState().lastHash, second.id);
+
+    const before = tablet.getChainState();
+    await assert.rejects(() => tablet.createDocument('profile', {}), { code: ERROR_CODES.DELEGATION_DENIED });
+    await assert.rejects(() => tablet.revokeDocuments([first.id]), { code: ERROR_CODES.DELEGATION_DENIED });
+
+    // The batch runs past the delegation window (logical time 20)
+    await assert.rejects(
+      () => tablet.createDocuments(Array.from({ length: 20 }, () => ({ type: 'note' }))),
+      { code: ERROR_CODES.DELEGATION_DENIED }
+    );
+    assert.deepStrictEqual(tablet.getChainState(), before);
+
+    tablet.destroy();
+  });
+
+  await t.test('Revoked delegation denies later documents only', async () => {
+    const before = await deviceDocument('note', delegation, delegation.logical_time + 1);
+    await core.createDocument('test', {});
+    const revocation = await core.revokeDocuments([delegation.id]);
+    const after = await deviceDocument('note', revocation, revocation.logical_time + 1);
+
+    const denied = await core.verifyDocument(after);
+    assert.strictEqual(denied.final, false);
+    assert.deepStrictEqual(denied.codes, [ERROR_CODES.DELEGATION_DENIED]);
+
+    assert.strictEqual((await core.verifyDocument(before)).cryptographic_valid, true);
+  });
+
+  await t.test('Delegation scope is checked', async () => {
+    assert.throws(
+      () => DelegationSet.payload(device.publicKey, { allowedTypes: ['revocation'], validFrom: 1, validUntil: 5 }),
+      { code: ERROR_CODES.VALIDATION_FAILED }
+    );
+    assert.throws(
+      () => DelegationSet.payload(device.publicKey, { allowedTypes: ['note'], validFrom: 5, validUntil: 4 })
+    );
+  });
+
+  core.destroy();
+});
@@ -0,0 +1,96 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import {
+  NewZoneCore,
+  ChainStateManager,
+  DocumentBuilder,
+  DocumentValidator,
+  IdentityDerivation,
+  CanonicalJSON,
+  Ed25519,
+  toHex,
+  CRYPTO_SUITE,
+  CRYPTO_SUITE_V2
+} from '../src/index.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+test('Content-binding document IDs', async (t) => {
+  const { rootKey } = await IdentityDerivation.fromMnemonic(TEST_MNEMONIC);
+  const parent = '0'.repeat(64);
+
+  await t.test('ID covers payload and type', async () => {
+    const base = () => new DocumentBuilder()
+      .setChainId(rootKey.chainId)
+      .setParentHash(parent)
+      .setLogicalTime(2)
+      .setCreatedAt('2026-01-01T00:00:00.000Z');
+
+    const a = await base().setType('note').setPayload({ text: 'a' }).build();
+    const b = await base().setType('note').setPayload({ text: 'b' }).build();
+    const c = await base().setType('memo').setPayload({ text: 'a' }).build();
+
+    assert.strictEqual(a.crypto_suite, CRYPTO_SUITE_V2);
+    assert.notStrictEqual(a.id, b.id);
+    assert.notStrictEqual(a.id, c.id);
+    assert.strictEqual(IdentityDerivation.computeDocumentId(a), a.id);
+  });
+
+  await t.test('Logical time does not wrap at 2^32', () => {
+    const low = { chain_id: rootKey.chainId, parent_hash: parent, logical_time: 1 };
+    const high = { ...low, logical_time: 2 ** 32 + 1 };
+
+    assert.strictEqual(
+      IdentityDerivation.deriveDocumentId(low.chain_id, parent, low.logical_time),
+      IdentityDerivation.deriveDocumentId(high.chain_id, parent, high.logical_time)
+    );
+    assert.notStrictEqual(
+      IdentityDerivation.deriveContentDocumentId({ ...low, crypto_suite: CRYPTO_SUITE_V2 }),
+      IdentityDerivation.deriveContentDocumentId({ ...high, crypto_suite: CRYPTO_SUITE_V2 })
+    );
+  });
+
+  await t.test('Created chain passes integrity and validation', async () => {
+    const core = await NewZoneCore.create(TEST_MNEMONIC);
+    for (let i = 0; i < 3; i++) {
+      await core.createDocument('test', { index: i });
+    }
+
+    const manager = ChainStateManager.import(core.exportState(), core.getChainId());
+    assert.strictEqual(manager.verifyIntegrity(), true);
+
+    const tampered = { ...manager.documents[1]!, payload: { index: 99 } };
+    const result = await core.verifyDocument(tampered);
+    assert.strictEqual(result.final, false);
+
+    core.destroy();
+  });
+
+  await t.test('nzcore-crypto-01 documents still verify', async () => {
+    const doc = await new DocumentBuilder()
+      .setType('legacy')
+      .setChainId(rootKey.chainId)
+      .setParentHash(parent)
+      .setLogicalTime(2)
+      .setCryptoSuite(CRYPTO_SUITE)
+      .setPayload({ legacy: true })
+      .build();
+
+    assert.strictEqual(
+      doc.id,
+      IdentityDerivation.deriveDocumentId(rootKey.chainId, parent, 2)
+    );
+
+    const signature = await Ed25519.sign(
+      new TextEncoder().encode(CanonicalJSON.prepareForSigning(doc)),
+      rootKey.privateKey
+    );
+    doc.signature = toHex(signature);
+
+    const result = await new DocumentValidator().validate(doc, {
+      currentTime: 2,
+      trustedKeys: [rootKey.publicKey]
+    });
+    assert.strictEqual(result.final, true);
+  });
+});
@@ -0,0 +1,124 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import {
+  NewZoneCore,
+  ChainStateManager,
+  EquivocationProof,
+  CanonicalJSON,
+  DocumentBuilder,
+  LocalSigner,
+  Document,
+  toHex,
+  ERROR_CODES,
+  CRYPTO_SUITE
+} from '../src/index.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+const OTHER_MNEMONIC = 'legal winner thank year wave sausage worth useful legal winner thank yellow';
+
+test('Equivocation proofs', async (t) => {
+  // Two devices of one identity sign different documents on the same base
+  const laptop = await NewZoneCore.create(TEST_MNEMONIC);
+  const phone = await NewZoneCore.create(TEST_MNEMONIC);
+  const stranger = await NewZoneCore.create(OTHER_MNEMONIC);
+  const publicKey = laptop.getPublicKey();
+
+  const base = await laptop.createDocument('note', { base: true });
+  await phone.ingestDocument(base);
+  const left = await laptop.createDocument('note', { device: 'laptop' });
+  const right = await phone.createDocument('note', { device: 'phone' });
+  await laptop.ingestDocument(right);
+
+  await t.test('Proof names the shared parent and verifies offline', async () => {
+    const proof = await EquivocationProof.create(right, left, publicKey);
+
+    assert.strictEqual(proof.parentHash, base.id);
+    assert.strictEqual(proof.chainId, laptop.getChainId());
+    assert.deepStrictEqual(proof.documents.map(doc => doc.id), [left.id, right.id].sort());
+    assert.strictEqual(await proof.verify(publicKey), true);
+    assert.strictEqual(await proof.verify(stranger.getPublicKey()), false);
+  });
+
+  await t.test('Serialization is canonical and round-trips', async () => {
+    const proof = await EquivocationProof.create(left, right, publicKey);
+    const json = proof.serialize();
+
+    assert.strictEqual(CanonicalJSON.isCanonical(json), true);
+    assert.strictEqual((await EquivocationProof.create(right, left, publicKey)).serialize(), json);
+
+    const parsed = EquivocationProof.parse(json);
+    assert.strictEqual(parsed.serialize(), json);
+    assert.strictEqual(await parsed.verify(publicKey), true);
+
+    assert.throws(() => EquivocationProof.parse(JSON.stringify(JSON.parse(json), null, 2)), { code: ERROR_CODES.NON_CANONICAL_JSON });
+    assert.throws(() => EquivocationProof.parse(CanonicalJSON.serialize({ documents: [] })), { code: ERROR_CODES.VALIDATION_FAILED });
+  });
+
+  await t.test('Tampered proofs fail verification', async () => {
+    const data = JSON.parse((await EquivocationProof.create(left, right, publicKey)).serialize());
+
+    data.documents[0].payload = { device: 'forged' };
+    const tampered = EquivocationProof.parse(CanonicalJSON.serialize(data));
+    assert.strictEqual(await tampered.verify(publicKey), false);
+  });
+
+  await t.test('Documents that do not equivocate are refused', async () => {
+    const later = await laptop.createDocument('note', { n: 2 });
+    const foreign = await stranger.createDocument('note');
+
+    await assert.rejects(() => EquivocationProof.create(left, later, publicKey), { code: ERROR_CODES.VALIDATION_FAILED });
+    await assert.rejects(() => EquivocationProof.create(left, left, publicKey), { code: ERROR_CODES.VALIDATION_FAILED });
+    await assert.rejects(() => EquivocationProof.create(left, right, stranger.getPublicKey()), { code: ERROR_CODES.VALIDATION_FAILED });
+    await assert.rejects(() => EquivocationProof.create(left, foreign, publicKey), { code: ERROR_CODES.VALIDATION_FAILED });
+  });
+
+  await t.test('Double-signing under nzcore-crypto-01 shares one ID', async () => {
+    // crypto-01 IDs cover chain, parent and time, not the payload
+    const signed = async (payload: Record<string, unknown>): Promise<Document> => {
+      const doc = await new DocumentBuilder()
+        .setType('note')
+        .setChainId(laptop.getChainId())
+        .setParentHash(base.id)
+        .setLogicalTime(base.logical_time + 1)
+        .setCryptoSuite(CRYPTO_SUITE)
+        .setPayload(payload)
+        .build();
+
+      const signer = await LocalSigner.fromMnemonic(TEST_MNEMONIC);
+      doc.signature = toHex(await signer.sign(new TextEncoder().encode(CanonicalJSON.prepareForSigning(doc))));
+      signer.destroy();
+      return doc;
+    };
+
+    const pay = await signed({ to: 'alice' });
+    const payElsewhere = await signed({ to: 'bob' });
+    assert.strictEqual(pay.id, payElsewhere.id);
+
+    const proof = await EquivocationProof.create(pay, payElsewhere, publicKey);
+    assert.strictEqual(await proof.verify(publicKey), true);
+    assert.strictEqual(
+      (await EquivocationProof.create(payElsewhere, pay, publicKey)).serialize(),
+      proof.serialize()
+    );
+    assert.strictEqual(await EquivocationProof.parse(proof.serialize()).verify(publicKey), true);
+
+    const [collected] = await EquivocationProof.collect([base, pay, payElsewhere, pay], publicKey);
+    assert.strictEqual(collected?.serialize(), proof.serialize());
+
+    await assert.rejects(() => EquivocationProof.create(pay, { ...pay }, publicKey), { code: ERROR_CODES.VALIDATION_FAILED });
+  });
+
+  await t.test('collect gathers one proof per fork', async () => {
+    const documents = ChainStateManager.import(laptop.exportState(), laptop.getChainId()).documents;
+
+    const proofs = await EquivocationProof.collect(documents, publicKey);
+    assert.deepStrictEqual(proofs.map(proof => proof.parentHash), [base.id]);
+    assert.strictEqual(await proofs[0]?.verify(publicKey), true);
+
+    assert.deepStrictEqual(await EquivocationProof.collect(documents, stranger.getPublicKey()), []);
+  });
+
+  laptop.destroy();
+  phone.destroy();
+  stranger.destroy();
+});
@@ -0,0 +1,137 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import {
+  NewZoneCore,
+  NewZoneVerifier,
+  ERROR_CODES,
+  DOCUMENT_TYPES
+} from '../src/index.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+// Two devices of one identity that diverge after a shared base document
+const diverged = async () => {
+  const laptop = await NewZoneCore.create(TEST_MNEMONIC);
+  const phone = await NewZoneCore.create(TEST_MNEMONIC);
+
+  const base = await laptop.createDocument('note', { base: true });
+  await phone.ingestDocument(base);
+
+  const left = await laptop.createDocument('note', { device: 'laptop' });
+  const right = await phone.createDocument('note', { device: 'phone' });
+  await laptop.ingestDocument(right);
+
+  return { laptop, phone, base, left, right };
+};
+
+test('Fork resolution', async (t) => {
+  await t.test('Merge document resolves the fork', async () => {
+    const { laptop, phone, base, left, right } = await diverged();
+    const [fork] = laptop.detectFork();
+    assert.strictEqual(fork?.resolved, false);
+
+    const merge = await laptop.resolveFork(fork!, { keep: right.id, resolution: 'phone edit wins' });
+
+    assert.strictEqual(merge.type, DOCUMENT_TYPES.MERGE);
+    assert.deepStrictEqual(merge.parent_hashes, [right.id, left.id]);
+    assert.deepStrictEqual(merge.payload, {
+      fork: base.id,
+      conflicts: [left.id, right.id].sort(),
+      keep: right.id,
+      resolution: 'phone edit wins'
+    });
+    assert.strictEqual((await laptop.verifyDocument(merge)).final, true);
+
+    const state = laptop.getChainState();
+    assert.deepStrictEqual(state.forks.map(f => [f.resolved, f.resolution]), [[true, merge.id]]);
+    assert.deepStrictEqual(laptop.detectFork().map(f => f.resolution), [merge.id]);
+    assert.deepStrictEqual(state.heads, [merge.id]);
+
+    const next = await laptop.createDocument('note', { after: 'merge' });
+    assert.strictEqual(next.parent_hash, merge.id);
+
+    laptop.destroy();
+    phone.destroy();
+  });
+
+  await t.test('Merge joins the heads of each branch', async () => {
+    const { laptop, phone, left, right } = await diverged();
+    const later = await phone.createDocument('note', { device: 'phone', n: 2 });
+    await laptop.ingestDocument(later);
+
+    const [fork] = laptop.detectFork();
+    const merge = await laptop.resolveFork(fork!, { keep: left.id });
+
+    assert.deepStrictEqual(merge.parent_hashes, [left.id, later.id]);
+    assert.strictEqual(merge.payload?.['resolution'], undefined);
+    assert.deepStrictEqual(merge.payload?.['conflicts'], [left.id, right.id].sort());
+    assert.deepStrictEqual(laptop.getChainState().heads, [merge.id]);
+
+    laptop.destroy();
+    phone.destroy();
+  });
+
+  await t.test('Resolution survives export and import', async () => {
+    const { laptop, phone, left } = await diverged();
+    const [fork] = laptop.detectFork();
+    const merge = await laptop.resolveFork(fork!, { keep: left.id });
+    const exported = laptop.exportState();
+
+    const restored = await NewZoneCore.create(TEST_MNEMONIC);
+    restored.importState(exported);
+    assert.deepStrictEqual(restored.getChainState().forks.map(f => f.resolution), [merge.id]);
+
+    const verified = await NewZoneCore.create(TEST_MNEMONIC);
+    assert.strictEqual((await verified.importStateVerified(exported)).valid, true);
+    assert.deepStrictEqual(verified.getChainState().forks.map(f => f.resolution), [merge.id]);
+
+    const verifier = await NewZoneVerifier.fromExport(exported, laptop.getPublicKey());
+    assert.deepStrictEqual(verifier.getChainState().forks.map(f => f.resolved), [true]);
+    assert.deepStrictEqual(verifier.detectFork().map(f => f.resolution), [merge.id]);
+
+    for (const core of [laptop, phone, restored, verified]) core.destroy();
+  });
+
+  await t.test('A new conflicting branch reopens the fork', async () => {
+    const { laptop, phone, base, left } = await diverged();
+    const [fork] = laptop.detectFork();
+    await laptop.resolveFork(fork!, { keep: left.id });
+
+    const tablet = await NewZoneCore.create(TEST_MNEMONIC);
+    await tablet.ingestDocument(base);
+    const third = await tablet.createDocument('note', { device: 'tablet' });
+    await laptop.ingestDocument(third);
+
+    const [reopened] = laptop.detectFork();
+    assert.strictEqual(reopened?.documents.length, 3);
+    assert.strictEqual(reopened.resolved, false);
+
+    const merge = await laptop.resolveFork(reopened, { keep: left.id });
+    assert.strictEqual(laptop.getChainState().forks[0]?.resolution, merge.id);
+    assert.strictEqual((merge.payload?.['conflicts'] as string[]).length, 3);
+
+    for (const core of [laptop, phone, tablet]) core.destroy();
+  });
+
+  await t.test('Invalid resolutions are refused', async () => {
+    const { laptop, phone, left } = await diverged();
+    const [fork] = laptop.detectFork();
+    const before = laptop.getChainState();
+
+    await assert.rejects(
+      () => laptop.resolveFork(fork!, { keep: 'ab'.repeat(32) }),
+      { code: ERROR_CODES.VALIDATION_FAILED }
+    );
+    await assert.rejects(
+      () => laptop.resolveFork({ ...fork!, parentHash: 'cd'.repeat(32) }, { keep: left.id }),
+      { code: ERROR_CODES.VALIDATION_FAILED }
+    );
+    assert.deepStrictEqual(laptop.getChainState(), before);
+
+    await laptop.resolveFork(fork!, { keep: left.id });
+    await assert.rejects(() => laptop.resolveFork(fork!, { keep: left.id }), { code: ERROR_CODES.VALIDATION_FAILED });
+
+    laptop.destroy();
+    phone.destroy();
+  });
+});
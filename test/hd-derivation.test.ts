@@ -0,0 +1,90 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import {
+  HDKeyDerivation,
+  Ed25519,
+  X25519,
+  toHex,
+  ERROR_CODES
+} from '../src/index.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+// Published in specs/CRYPTO_SPEC.md
+const VECTORS = [
+  {
+    path: 'm',
+    ed25519Private: 'f7873bc4750d7389d2244ad144ac022da5a2f26023ea819a4059997fce08fed4',
+    ed25519Public: '0095bddf9a7597762b21fd7999c99bd47f053ed54b3f3f83ba51394f56ac4f31',
+    x25519Public: '67ec1d0b834b2c9fc643ffec96bb36bb77abd8bd09cd766c86ade2dc1622c43e'
+  },
+  {
+    path: "m/0'",
+    ed25519Private: '70a10f5ec6a9ef8914cd4b52fa6192c6537c0c9fdbc6219b3b581680218209f4',
+    ed25519Public: '7476781db5e40ba952864a4e5915b36de9369b0829883ba30c26e5e87f3e09d1',
+    x25519Public: 'ea6008c4e60ddc17f717ddcb814041c6a32c757d25da177b3559f6a7c35c4476'
+  },
+  {
+    path: "m/nz'/signing'/0'",
+    ed25519Private: '0f477807ac2e7021ab0cf57c27704e4d9c8d40de17ada051b7735516606836ab',
+    ed25519Public: 'cd2c2a81732c0681cae12de12dd794694421fc21336d293ab1d2d2baad82fc06',
+    x25519Public: 'a4bef2d8c12cd31649b55895218e527e2d88808e8095e48bafb6af9d7e48a220'
+  },
+  {
+    path: "m/nz'/signing'/3'",
+    ed25519Private: '2f26635ce87c63330fbb4d6049d9f0a6a24e79eb9bc1d01e3763d52b0aa2e463',
+    ed25519Public: '64e53f6ed3b06ff54fccb0f38bfc28043cbf65bf9d9fa48dab978c6ba20854fa',
+    x25519Public: '146dc8b4d6ca9a0f38c6bc21f9f5eaf430b568eb250ba009e58ebf4c5d6a2665'
+  },
+  {
+    path: "m/nz'/encryption'/0'",
+    ed25519Private: '3c66c1b09aa438908283576f32a26c23f6151d7cb01a5fb1defcf67321e4e722',
+    ed25519Public: '0fc680f1747c996978c16afc65826ee29dfe4f9ae29cde7fbfaec473749cbb80',
+    x25519Public: '20e6c3bc78e0f330da83c44c31dc37005c8adb5b1680c838f1cd375bb2f97b17'
+  }
+];
+
+test('Hierarchical key derivation', async (t) => {
+  await t.test('Matches published test vectors', async () => {
+    for (const vector of VECTORS) {
+      const keys = await HDKeyDerivation.fromMnemonic(TEST_MNEMONIC, vector.path);
+      assert.strictEqual(keys.path, vector.path);
+      assert.strictEqual(toHex(keys.ed25519.privateKey), vector.ed25519Private, vector.path);
+      assert.strictEqual(toHex(keys.ed25519.publicKey), vector.ed25519Public, vector.path);
+      assert.strictEqual(toHex(keys.x25519.publicKey), vector.x25519Public, vector.path);
+    }
+  });
+
+  await t.test('Named segments map to hardened indices', () => {
+    assert.strictEqual(HDKeyDerivation.segmentIndex('nz'), 0x94171a61);
+    assert.strictEqual(HDKeyDerivation.segmentIndex('signing'), 0x92915b4e);
+    assert.deepStrictEqual(
+      HDKeyDerivation.parsePath("m/nz'/3'"),
+      [0x94171a61, 0x80000003]
+    );
+  });
+
+  await t.test('Derived key pairs are usable', async () => {
+    const a = await HDKeyDerivation.fromMnemonic(TEST_MNEMONIC, "m/nz'/signing'/3'");
+    const b = await HDKeyDerivation.fromMnemonic(TEST_MNEMONIC, "m/nz'/encryption'/0'");
+
+    const message = new TextEncoder().encode('hd');
+    const signature = await Ed25519.sign(message, a.ed25519.privateKey);
+    assert.strictEqual(await Ed25519.verify(signature, message, a.ed25519.publicKey), true);
+
+    assert.deepStrictEqual(
+      X25519.sharedSecret(a.x25519.privateKey, b.x25519.publicKey),
+      X25519.sharedSecret(b.x25519.privateKey, a.x25519.publicKey)
+    );
+  });
+
+  await t.test('Rejects malformed and non-hardened paths', () => {
+    for (const path of ['', "n/0'", 'm/0', "m/Signing'", "m/2147483648'", "m//0'"]) {
+      assert.throws(
+        () => HDKeyDerivation.parsePath(path),
+        { code: ERROR_CODES.INVALID_DERIVATION_PATH },
+        path
+      );
+    }
+  });
+});
@@ -0,0 +1,12 @@
+/**
+ * Shared test helpers
+ */
+
+/**
+ * Parse exported chain state, mutate it and re-encode it
+ */
+export function editState(state: Uint8Array, mutate: (parsed: Record<string, unknown>) => void): Uint8Array {
+  const parsed = JSON.parse(new TextDecoder().decode(state)) as Record<string, unknown>;
+  mutate(parsed);
+  return new TextEncoder().encode(JSON.stringify(parsed));
+}
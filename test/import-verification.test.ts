@@ -0,0 +1,74 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import { NewZoneCore, Document, ERROR_CODES } from '../src/index.js';
+import { editState } from './helpers.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+test('Verified state import', async (t) => {
+  const core = await NewZoneCore.create(TEST_MNEMONIC);
+  const docs = [];
+  for (let i = 0; i < 3; i++) {
+    docs.push(await core.createDocument('test', { index: i }));
+  }
+  const state = core.exportState();
+
+  await t.test('Accepts untampered state', async () => {
+    const target = await NewZoneCore.create(TEST_MNEMONIC);
+    const report = await target.importStateVerified(state);
+
+    assert.strictEqual(report.valid, true);
+    assert.deepStrictEqual(report.accepted, docs.map(d => d.id));
+    assert.strictEqual(target.getChainState().lastHash, docs[2].id);
+
+    // Each new document advances logical time by one
+    const next = await target.createDocument('test', { index: 3 });
+    const after = await target.createDocument('test', { index: 4 });
+    assert.strictEqual(after.logical_time, next.logical_time + 1);
+    assert.strictEqual(target.getChainState().logicalClock, after.logical_time);
+    target.destroy();
+  });
+
+  await t.test('Rejects tampered payload and its descendants', async () => {
+    const target = await NewZoneCore.create(TEST_MNEMONIC);
+    const tampered = editState(state, parsed => {
+      const [, doc] = (parsed['documents'] as [string, Document][])[1]!;
+      doc.payload['index'] = 42;
+    });
+
+    const report = await target.importStateVerified(tampered);
+
+    assert.strictEqual(report.valid, false);
+    assert.deepStrictEqual(report.accepted, [docs[0].id]);
+    assert.deepStrictEqual(
+      report.rejected.map(r => [r.id, r.code]),
+      [
+        [docs[1].id, ERROR_CODES.INVALID_SIGNATURE],
+        [docs[2].id, ERROR_CODES.ORPHAN_PARENT]
+      ]
+    );
+
+    // Invalid state is not adopted
+    assert.strictEqual(target.getChainState().documentCount, 0);
+    target.destroy();
+  });
+
+  await t.test('Reports forged lastHash and clock', async () => {
+    const target = await NewZoneCore.create(TEST_MNEMONIC);
+    const tampered = editState(state, parsed => {
+      parsed['lastHash'] = 'f'.repeat(64);
+      (parsed['clock'] as { logical_clock: number }).logical_clock = 1;
+    });
+
+    const report = await target.importStateVerified(tampered);
+
+    assert.strictEqual(report.valid, false);
+    assert.strictEqual(report.rejected.length, 0);
+    assert.strictEqual(report.errors.length, 2);
+    assert.strictEqual(report.manager.getLastHash(), docs[2].id);
+    assert.strictEqual(report.manager.clock.current, docs[2].logical_time);
+    target.destroy();
+  });
+
+  core.destroy();
+});
@@ -0,0 +1,142 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import { NewZoneCore, LogicalClock, MemoryChainStorage, ERROR_CODES } from '../src/index.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+const OTHER_MNEMONIC = 'legal winner thank year wave sausage worth useful legal winner thank yellow';
+
+test('Document ingestion', async (t) => {
+  await t.test('LogicalClock.merge advances to max(local, remote) + 1', () => {
+    const clock = new LogicalClock(5);
+    assert.strictEqual(clock.merge(2), 6);
+    assert.strictEqual(clock.merge(10), 11);
+    assert.strictEqual(clock.merge(11), 12);
+    assert.throws(() => clock.merge(0), { code: ERROR_CODES.LOGICAL_TIME_VIOLATION });
+    assert.throws(() => clock.merge(1.5), { code: ERROR_CODES.LOGICAL_TIME_VIOLATION });
+
+    clock.freeze();
+    assert.throws(() => clock.merge(20), { code: ERROR_CODES.LOGICAL_TIME_VIOLATION });
+    assert.strictEqual(clock.current, 12);
+  });
+
+  await t.test('Devices of one identity exchange documents', async () => {
+    const laptop = await NewZoneCore.create(TEST_MNEMONIC);
+    const phone = await NewZoneCore.create(TEST_MNEMONIC);
+
+    const first = await laptop.createDocument('note', { n: 1 });
+    const second = await laptop.createDocument('note', { n: 2 });
+
+    await phone.ingestDocument(first);
+    await phone.ingestDocument(second);
+    assert.strictEqual(phone.getChainState().lastHash, second.id);
+    assert.strictEqual(phone.getChainState().logicalClock, second.logical_time + 1);
+
+    const reply = await phone.createDocument('note', { n: 3 });
+    assert.strictEqual(reply.parent_hash, second.id);
+    assert.ok(reply.logical_time > second.logical_time);
+
+    await laptop.ingestDocument(reply);
+    assert.deepStrictEqual(laptop.getChainState().lastHash, phone.getChainState().lastHash);
+    assert.deepStrictEqual(laptop.detectFork(), []);
+
+    laptop.destroy();
+    phone.destroy();
+  });
+
+  await t.test('Clock ahead of the remote still advances', async () => {
+    const laptop = await NewZoneCore.create(TEST_MNEMONIC);
+    const phone = await NewZoneCore.create(TEST_MNEMONIC, { initialTime: 100 });
+
+    const doc = await laptop.createDocument('note');
+    await phone.ingestDocument(doc);
+    assert.strictEqual(phone.getChainState().logicalClock, 101);
+
+    const next = await phone.createDocument('note');
+    assert.strictEqual(next.parent_hash, doc.id);
+    assert.strictEqual(next.logical_time, 102);
+
+    laptop.destroy();
+    phone.destroy();
+  });
+
+  await t.test('Concurrent documents on two devices are recorded as a fork', async () => {
+    const laptop = await NewZoneCore.create(TEST_MNEMONIC);
+    const phone = await NewZoneCore.create(TEST_MNEMONIC);
+
+    const base = await laptop.createDocument('note', { base: true });
+    await phone.ingestDocument(base);
+
+    const fromLaptop = await laptop.createDocument('note', { device: 'laptop' });
+    const fromPhone = await phone.createDocument('note', { device: 'phone' });
+    await laptop.ingestDocument(fromPhone);
+
+    const [fork] = laptop.detectFork();
+    assert.strictEqual(fork?.parentHash, base.id);
+    assert.deepStrictEqual([...fork.documents].sort(), [fromLaptop.id, fromPhone.id].sort());
+
+    laptop.destroy();
+    phone.destroy();
+  });
+
+  await t.test('A document on another branch keeps the local head', async () => {
+    const storage = new MemoryChainStorage();
+    const laptop = await NewZoneCore.create(TEST_MNEMONIC, { storage });
+    const phone = await NewZoneCore.create(TEST_MNEMONIC);
+
+    const l1 = await laptop.createDocument('note', { device: 'laptop', n: 1 });
+    const l2 = await laptop.createDocument('note', { device: 'laptop', n: 2 });
+    const p1 = await phone.createDocument('note', { device: 'phone', n: 1 });
+    const p2 = await phone.createDocument('note', { device: 'phone', n: 2 });
+
+    await laptop.ingestDocument(p1);
+    await laptop.ingestDocument(p2);
+    assert.strictEqual(laptop.getChainState().lastHash, l2.id);
+    assert.deepStrictEqual(laptop.detectFork().map(fork => [...fork.documents].sort()), [[l1.id, p1.id].sort()]);
+
+    const restored = await NewZoneCore.create(TEST_MNEMONIC, { storage });
+    assert.strictEqual(restored.getChainState().lastHash, l2.id);
+    restored.destroy();
+
+    const l3 = await laptop.createDocument('note', { device: 'laptop', n: 3 });
+    assert.strictEqual(l3.parent_hash, l2.id);
+    assert.ok(l3.logical_time > p2.logical_time);
+
+    const reopened = await NewZoneCore.create(TEST_MNEMONIC, { storage });
+    assert.strictEqual(reopened.getChainState().lastHash, l3.id);
+    assert.strictEqual(reopened.getChainState().documentCount, 5);
+
+    laptop.destroy();
+    phone.destroy();
+    reopened.destroy();
+  });
+
+  await t.test('Invalid documents are rejected without changing the chain', async () => {
+    const laptop = await NewZoneCore.create(TEST_MNEMONIC);
+    const phone = await NewZoneCore.create(TEST_MNEMONIC);
+    const stranger = await NewZoneCore.create(OTHER_MNEMONIC);
+
+    const first = await laptop.createDocument('note', { n: 1 });
+    const second = await laptop.createDocument('note', { n: 2 });
+    const before = phone.getChainState();
+
+    await assert.rejects(() => phone.ingestDocument(second), { code: ERROR_CODES.ORPHAN_PARENT });
+
+    const malformed = { ...first, logical_time: 'soon' as unknown as number };
+    await assert.rejects(() => phone.ingestDocument(malformed), { code: ERROR_CODES.VALIDATION_FAILED });
+
+    const forged = { ...first, payload: { n: 99 } };
+    await assert.rejects(() => phone.ingestDocument(forged), { code: ERROR_CODES.INVALID_SIGNATURE });
+
+    const foreign = await stranger.createDocument('note');
+    await assert.rejects(() => phone.ingestDocument(foreign), { code: ERROR_CODES.INVALID_SIGNATURE });
+
+    assert.deepStrictEqual(phone.getChainState(), before);
+
+    await phone.ingestDocument(first);
+    await assert.rejects(() => phone.ingestDocument(first), { code: ERROR_CODES.DUPLICATE_DOCUMENT });
+
+    laptop.destroy();
+    phone.destroy();
+    stranger.destroy();
+  });
+});
@@ -0,0 +1,75 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import {
+  NewZoneCore,
+  DocumentBuilder,
+  IdentityDerivation,
+  CanonicalJSON,
+  Ed25519,
+  toHex,
+  ERROR_CODES
+} from '../src/index.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+test('Key rotation', async (t) => {
+  const core = await NewZoneCore.create(TEST_MNEMONIC);
+  const chainId = core.getChainId();
+  const next = await Ed25519.generateKeyPair();
+
+  await core.createDocument('test', { before: true });
+  const rotation = await core.rotateKey(next);
+  const after = await core.createDocument('test', { after: true });
+
+  await t.test('Chain identity is preserved', () => {
+    assert.strictEqual(core.getChainId(), chainId);
+    assert.strictEqual(after.chain_id, chainId);
+    assert.strictEqual(toHex(core.getSigningPublicKey()), toHex(next.publicKey));
+  });
+
+  await t.test('Rotation and later documents verify', async () => {
+    assert.strictEqual((await core.verifyDocument(rotation)).final, true);
+    assert.strictEqual((await core.verifyDocument(after)).final, true);
+  });
+
+  await t.test('Rotated-out key cannot sign after rotation', async () => {
+    const { rootKey } = await IdentityDerivation.fromMnemonic(TEST_MNEMONIC);
+
+    const forged = await new DocumentBuilder()
+      .setType('test')
+      .setChainId(chainId)
+      .setParentHash(after.id)
+      .setLogicalTime(after.logical_time + 1)
+      .setPayload({ forged: true })
+      .build();
+    const signature = await Ed25519.sign(
+      new TextEncoder().encode(CanonicalJSON.prepareForSigning(forged)),
+      rootKey.privateKey
+    );
+    forged.signature = toHex(signature);
+
+    const result = await core.verifyDocument(forged);
+    assert.strictEqual(result.final, false);
+    assert.ok(result.errors?.some(e => e.includes(`rotated out at logical time ${rotation.logical_time}`)));
+  });
+
+  await t.test('Restored core resumes with rotated key', async () => {
+    const restored = await NewZoneCore.create(TEST_MNEMONIC);
+    const report = await restored.importStateVerified(core.exportState());
+    assert.strictEqual(report.valid, true);
+
+    const stranger = await Ed25519.generateKeyPair();
+    await assert.rejects(
+      restored.setSigningKey(stranger),
+      { code: ERROR_CODES.INVALID_KEY }
+    );
+
+    await restored.setSigningKey(next);
+    const doc = await restored.createDocument('test', { resumed: true });
+    assert.strictEqual((await restored.verifyDocument(doc)).final, true);
+
+    restored.destroy();
+  });
+
+  core.destroy();
+});
@@ -0,0 +1,75 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import {
+  IdentityKeyring,
+  NewZoneCore,
+  ERROR_CODES
+} from '../src/index.js';
+
+const PERSONAL = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+const WORK = 'legal winner thank year wave sausage worth useful legal winner thank yellow';
+
+// Low cost for tests only
+const options = { scrypt: { N: 1024, r: 8, p: 1 } };
+
+test('Identity keyring', async (t) => {
+  const keyring = IdentityKeyring.create('vault pw', options);
+  const personal = await keyring.add(PERSONAL, 'personal');
+  const work = await keyring.add(WORK, 'work');
+
+  await t.test('Lists identities by chain ID and label', () => {
+    assert.deepStrictEqual(keyring.list(), [personal, work]);
+    assert.notStrictEqual(personal.chainId, work.chainId);
+  });
+
+  await t.test('Opens one identity at a time', async () => {
+    const first = await keyring.open(personal.chainId);
+    assert.strictEqual(first.getChainId(), personal.chainId);
+
+    const second = await keyring.open(work.chainId);
+    assert.strictEqual(second.getChainId(), work.chainId);
+    assert.throws(() => first.getChainId(), 'previous identity is destroyed');
+  });
+
+  await t.test('Rename and remove', async () => {
+    keyring.rename(work.chainId, 'office');
+    assert.strictEqual(keyring.list()[1]?.label, 'office');
+
+    const core = await keyring.open(work.chainId);
+    keyring.remove(work.chainId);
+    assert.deepStrictEqual(keyring.list().map(e => e.chainId), [personal.chainId]);
+    assert.throws(() => core.getChainId());
+
+    await assert.rejects(() => keyring.open(work.chainId), { code: ERROR_CODES.UNKNOWN_IDENTITY });
+  });
+
+  await t.test('Lock zeroizes and blocks access', async () => {
+    const core = await keyring.open(personal.chainId);
+    keyring.lock();
+
+    assert.strictEqual(keyring.locked, true);
+    assert.throws(() => core.getChainId());
+    assert.strictEqual(keyring.list().length, 1);
+    await assert.rejects(() => keyring.open(personal.chainId), { code: ERROR_CODES.KEYRING_LOCKED });
+  });
+
+  await t.test('Vault round trip and password check', async () => {
+    const restored = IdentityKeyring.fromVault(JSON.stringify(keyring.export()), options);
+    assert.strictEqual(restored.locked, true);
+    assert.ok(!JSON.stringify(keyring.export()).includes('abandon'));
+
+    assert.throws(() => restored.unlock('wrong'), { code: ERROR_CODES.WRONG_PASSWORD });
+    assert.strictEqual(restored.locked, true);
+
+    restored.unlock('vault pw');
+    const core = await restored.open(personal.chainId);
+    assert.strictEqual(core.getChainId(), personal.chainId);
+
+    // Entries are ordinary keystores
+    const direct = await NewZoneCore.fromKeystore(restored.export().entries[0]!.keystore, 'vault pw');
+    assert.strictEqual(direct.getChainId(), personal.chainId);
+
+    direct.destroy();
+    restored.lock();
+  });
+});
@@ -0,0 +1,82 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import {
+  NewZoneCore,
+  Keystore,
+  KeystoreFile,
+  ERROR_CODES
+} from '../src/index.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+const OTHER_MNEMONIC = 'legal winner thank year wave sausage worth useful legal winner thank yellow';
+
+// Low cost for tests only
+const FAST_SCRYPT = { N: 1024, r: 8, p: 1 };
+
+test('Password-encrypted keystore', async (t) => {
+  const core = await NewZoneCore.create(TEST_MNEMONIC);
+  const keystore = await core.exportKeystore('correct horse', FAST_SCRYPT);
+
+  await t.test('Records KDF parameters and no plaintext', () => {
+    assert.strictEqual(keystore.version, 1);
+    assert.strictEqual(keystore.chain_id, core.getChainId());
+    assert.deepStrictEqual(
+      { n: keystore.kdf.n, r: keystore.kdf.r, p: keystore.kdf.p },
+      { n: 1024, r: 8, p: 1 }
+    );
+    assert.ok(!JSON.stringify(keystore).includes('abandon'));
+  });
+
+  await t.test('Round trips through JSON', async () => {
+    const restored = await NewZoneCore.fromKeystore(JSON.stringify(keystore), 'correct horse');
+    assert.strictEqual(restored.getChainId(), core.getChainId());
+    assert.strictEqual(restored.getPublicKeyHex(), core.getPublicKeyHex());
+    restored.destroy();
+  });
+
+  await t.test('Wrong password is reported distinctly', async () => {
+    await assert.rejects(
+      () => NewZoneCore.fromKeystore(keystore, 'wrong horse'),
+      { code: ERROR_CODES.WRONG_PASSWORD }
+    );
+  });
+
+  await t.test('Tampering is detected', async () => {
+    const flipped = keystore.ciphertext.slice(0, -1) + (keystore.ciphertext.endsWith('0') ? '1' : '0');
+    await assert.rejects(
+      () => Keystore.decrypt({ ...keystore, ciphertext: flipped }, 'correct horse'),
+      { code: ERROR_CODES.KEYSTORE_TAMPERED }
+    );
+
+    await assert.rejects(
+      () => Keystore.decrypt({ ...keystore, chain_id: 'f'.repeat(64) }, 'correct horse'),
+      { code: ERROR_CODES.KEYSTORE_TAMPERED }
+    );
+  });
+
+  await t.test('Substituted keystore is rejected', async () => {
+    const other = await Keystore.encrypt(OTHER_MNEMONIC, 'pw', core.getChainId(), FAST_SCRYPT);
+    await assert.rejects(
+      () => NewZoneCore.fromKeystore(other, 'pw'),
+      { code: ERROR_CODES.KEYSTORE_TAMPERED }
+    );
+  });
+
+  await t.test('Malformed files are rejected', async () => {
+    const malformed: unknown[] = [
+      '{not json',
+      { ...keystore, version: 2 },
+      { ...keystore, kdf: { ...keystore.kdf, n: 2 ** 24 } },
+      { ...keystore, cipher: { ...keystore.cipher, nonce: '00' } }
+    ];
+
+    for (const file of malformed) {
+      await assert.rejects(
+        () => Keystore.decrypt(file as KeystoreFile, 'correct horse'),
+        { code: ERROR_CODES.INVALID_KEYSTORE }
+      );
+    }
+  });
+
+  core.destroy();
+});
@@ -0,0 +1,86 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import { setTimeout as sleep } from 'node:timers/promises';
+import {
+  NewZoneCore,
+  ERROR_CODES
+} from '../src/index.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+// Low cost for tests only
+const FAST_SCRYPT = { N: 1024, r: 8, p: 1 };
+
+test('Locked mode', async (t) => {
+  await t.test('Locked core verifies but cannot sign', async () => {
+    const core = await NewZoneCore.create(TEST_MNEMONIC);
+    core.setLockSecret('unlock me', FAST_SCRYPT);
+    const doc = await core.createDocument('test', { before: true });
+    const clock = core.getChainState().logicalClock;
+
+    await core.lock();
+    assert.strictEqual(core.isLocked(), true);
+
+    assert.strictEqual((await core.verifyDocument(doc)).final, true);
+    assert.strictEqual(core.getChainState().documentCount, 1);
+
+    await assert.rejects(() => core.createDocument('test', {}), { code: ERROR_CODES.CORE_LOCKED });
+    assert.throws(() => core.exportIdentity(), { code: ERROR_CODES.CORE_LOCKED });
+    assert.strictEqual(core.getChainState().logicalClock, clock, 'clock does not advance while locked');
+
+    core.destroy();
+  });
+
+  await t.test('Unlock restores signing with the same key', async () => {
+    const core = await NewZoneCore.create(TEST_MNEMONIC);
+    core.setLockSecret('unlock me', FAST_SCRYPT);
+
+    await core.lock();
+    await assert.rejects(() => core.unlock('wrong'), { code: ERROR_CODES.WRONG_PASSWORD });
+    assert.strictEqual(core.isLocked(), true);
+
+    await core.unlock('unlock me');
+    assert.strictEqual(core.isLocked(), false);
+    assert.strictEqual(core.exportIdentity().mnemonic, TEST_MNEMONIC);
+
+    const doc = await core.createDocument('test', { after: true });
+    assert.strictEqual((await core.verifyDocument(doc)).final, true);
+
+    core.destroy();
+  });
+
+  await t.test('Lock requires a lock secret', async () => {
+    const core = await NewZoneCore.create(TEST_MNEMONIC);
+    await assert.rejects(() => core.lock(), { code: ERROR_CODES.VALIDATION_FAILED });
+    assert.throws(() => core.setAutoLock({ afterSignatures: 1 }), { code: ERROR_CODES.VALIDATION_FAILED });
+    core.destroy();
+  });
+
+  await t.test('Auto-lock after N signatures', async () => {
+    const core = await NewZoneCore.create(TEST_MNEMONIC);
+    core.setLockSecret('unlock me', FAST_SCRYPT);
+    core.setAutoLock({ afterSignatures: 2 });
+
+    await core.createDocument('test', {});
+    assert.strictEqual(core.isLocked(), false);
+    await core.createDocument('test', {});
+    assert.strictEqual(core.isLocked(), true);
+
+    await core.unlock('unlock me');
+    await core.createDocument('test', {});
+    assert.strictEqual(core.isLocked(), false, 'count restarts after unlock');
+
+    core.destroy();
+  });
+
+  await t.test('Auto-lock after idle period', async () => {
+    const core = await NewZoneCore.create(TEST_MNEMONIC);
+    core.setLockSecret('unlock me', FAST_SCRYPT);
+    core.setAutoLock({ idleMs: 20 });
+
+    await sleep(100);
+    assert.strictEqual(core.isLocked(), true);
+
+    core.destroy();
+  });
+});
@@ -0,0 +1,69 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import { NewZoneCore, ERROR_CODES } from '../src/index.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+test('Prepare and commit', async (t) => {
+  await t.test('Prepared document is signed but not committed', async () => {
+    const core = await NewZoneCore.create(TEST_MNEMONIC);
+    const before = core.getChainState();
+
+    const doc = await core.prepareDocument('note', { draft: true });
+    assert.ok(doc.signature);
+    assert.strictEqual(doc.parent_hash, before.lastHash);
+    assert.deepStrictEqual(core.getChainState(), before);
+
+    core.commitDocument(doc);
+    assert.strictEqual(core.getChainState().lastHash, doc.id);
+    assert.strictEqual(core.getChainState().documentCount, 1);
+    assert.strictEqual((await core.verifyDocument(doc)).final, true);
+
+    core.destroy();
+  });
+
+  await t.test('Discard leaves no gap in logical time', async () => {
+    const core = await NewZoneCore.create(TEST_MNEMONIC);
+    const first = await core.createDocument('note', { n: 1 });
+
+    const draft = await core.prepareDocument('note', { n: 2 });
+    assert.strictEqual(core.discard(draft), true);
+    assert.strictEqual(core.discard(draft), false);
+    assert.throws(() => core.commitDocument(draft), { code: ERROR_CODES.VALIDATION_FAILED });
+
+    const next = await core.createDocument('note', { n: 3 });
+    assert.strictEqual(next.logical_time, draft.logical_time);
+    assert.strictEqual(next.logical_time, first.logical_time + 1);
+
+    core.destroy();
+  });
+
+  await t.test('Commit fails if the head moved', async () => {
+    const core = await NewZoneCore.create(TEST_MNEMONIC);
+    const draft = await core.prepareDocument('note', { late: true });
+    const other = await core.prepareDocument('note', { early: true });
+
+    core.commitDocument(other);
+    assert.throws(() => core.commitDocument(draft), { code: ERROR_CODES.VALIDATION_FAILED }, 'pruned after commit');
+
+    const again = await core.prepareDocument('note', { late: true });
+    await core.createDocument('note', { sneaky: true });
+    assert.throws(() => core.commitDocument(again), { code: ERROR_CODES.STALE_REQUEST });
+    assert.strictEqual(core.getChainState().documentCount, 2);
+
+    core.destroy();
+  });
+
+  await t.test('Altered prepared document is refused', async () => {
+    const core = await NewZoneCore.create(TEST_MNEMONIC);
+    const draft = await core.prepareDocument('note', { amount: 1 });
+
+    assert.throws(
+      () => core.commitDocument({ ...draft, payload: { amount: 1000 } }),
+      { code: ERROR_CODES.VALIDATION_FAILED }
+    );
+    core.commitDocument(draft);
+
+    core.destroy();
+  });
+});
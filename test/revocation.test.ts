@@ -0,0 +1,92 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import {
+  NewZoneCore,
+  DocumentBuilder,
+  DocumentValidator,
+  CanonicalJSON,
+  Ed25519,
+  toHex,
+  ERROR_CODES
+} from '../src/index.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+test('Expiration and revocation', async (t) => {
+  const core = await NewZoneCore.create(TEST_MNEMONIC);
+
+  await t.test('Document expires after valid_until', async () => {
+    const doc = await core.createDocument('test', { lease: 1 }, {
+      validUntil: core.getChainState().logicalClock + 2
+    });
+
+    assert.strictEqual((await core.verifyDocument(doc)).final, true);
+
+    await core.createDocument('test', {});
+    assert.strictEqual((await core.verifyDocument(doc)).final, true, 'valid_until is inclusive');
+
+    await core.createDocument('test', {});
+    const result = await core.verifyDocument(doc);
+    assert.strictEqual(result.final, false);
+    assert.strictEqual(result.expired, true);
+    assert.deepStrictEqual(result.codes, [ERROR_CODES.DOCUMENT_EXPIRED]);
+  });
+
+  await t.test('Revoked document is not final', async () => {
+    const doc = await core.createDocument('test', { grant: true });
+    const revocation = await core.revokeDocuments([doc.id], 'superseded');
+
+    assert.strictEqual((await core.verifyDocument(revocation)).final, true);
+
+    const result = await core.verifyDocument(doc);
+    assert.strictEqual(result.final, false);
+    assert.strictEqual(result.revoked, true);
+    assert.deepStrictEqual(result.codes, [ERROR_CODES.DOCUMENT_REVOKED]);
+  });
+
+  await t.test('Revocation only applies from its logical time', async () => {
+    const doc = await core.createDocument('test', {});
+    const revocation = await core.revokeDocuments([doc.id]);
+
+    const result = await new DocumentValidator().validate(doc, {
+      currentTime: revocation.logical_time - 1,
+      trustedKeys: [core.getPublicKey()],
+      chain: [doc, revocation]
+    });
+    assert.strictEqual(result.final, true);
+    assert.ok(!result.revoked);
+  });
+
+  await t.test('Revocation signed by untrusted key is ignored', async () => {
+    const doc = await core.createDocument('test', {});
+    const attacker = await Ed25519.generateKeyPair();
+
+    const forged = await new DocumentBuilder()
+      .setType('revocation')
+      .setChainId(core.getChainId())
+      .setParentHash(doc.id)
+      .setLogicalTime(doc.logical_time + 1)
+      .setPayload({ targets: [doc.id] })
+      .build();
+    forged.signature = toHex(await Ed25519.sign(
+      new TextEncoder().encode(CanonicalJSON.prepareForSigning(forged)),
+      attacker.privateKey
+    ));
+
+    const result = await new DocumentValidator().validate(doc, {
+      currentTime: forged.logical_time,
+      trustedKeys: [core.getPublicKey()],
+      chain: [doc, forged]
+    });
+    assert.strictEqual(result.final, true);
+  });
+
+  await t.test('Unknown revocation targets are rejected', async () => {
+    await assert.rejects(
+      () => core.revokeDocuments(['f'.repeat(64)]),
+      { code: ERROR_CODES.VALIDATION_FAILED }
+    );
+  });
+
+  core.destroy();
+});
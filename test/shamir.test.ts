@@ -0,0 +1,83 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import {
+  Mnemonic,
+  Shamir,
+  ERROR_CODES
+} from '../src/index.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+test('Shamir mnemonic backup', async (t) => {
+  await t.test('Any threshold of shares recovers the mnemonic', () => {
+    const shares = Mnemonic.split(TEST_MNEMONIC, 2, 3);
+    assert.strictEqual(shares.length, 3);
+
+    for (const [a, b] of [[0, 1], [0, 2], [1, 2], [2, 0]] as const) {
+      assert.strictEqual(Mnemonic.combine([shares[a] as string, shares[b] as string]), TEST_MNEMONIC);
+    }
+    assert.strictEqual(Mnemonic.combine(shares), TEST_MNEMONIC);
+  });
+
+  await t.test('24-word mnemonic with 3-of-5', () => {
+    const mnemonic = Mnemonic.generate(256);
+    const shares = Mnemonic.split(mnemonic, 3, 5);
+
+    assert.ok(shares.every(share => share.split(' ').length === 34));
+    assert.strictEqual(Mnemonic.combine([shares[4], shares[1], shares[3]] as string[]), mnemonic);
+  });
+
+  await t.test('Too few shares are rejected', () => {
+    const shares = Mnemonic.split(TEST_MNEMONIC, 3, 5);
+    assert.throws(
+      () => Mnemonic.combine([shares[0], shares[1], shares[1]] as string[]),
+      { code: ERROR_CODES.INSUFFICIENT_SHARES }
+    );
+  });
+
+  await t.test('Shares from different splits are rejected', () => {
+    const a = Mnemonic.split(TEST_MNEMONIC, 2, 3);
+    const b = Mnemonic.split(TEST_MNEMONIC, 2, 3);
+    assert.throws(
+      () => Mnemonic.combine([a[0], b[1]] as string[]),
+      { code: ERROR_CODES.SHARE_MISMATCH }
+    );
+  });
+
+  await t.test('Splits that share a set ID are rejected', () => {
+    // Set ID and threshold are encoded in the first three words
+    const seen = new Map<string, string[]>();
+    let pair: [string[], string[]] | undefined;
+    for (let i = 0; i < 5000 && !pair; i++) {
+      const shares = Mnemonic.split(TEST_MNEMONIC, 2, 3);
+      const key = (shares[0] as string).split(' ').slice(0, 3).join(' ');
+      const earlier = seen.get(key);
+      pair = earlier ? [earlier, shares] : undefined;
+      seen.set(key, shares);
+    }
+
+    assert.ok(pair, 'no set ID collision found');
+    const [a, b] = pair;
+    assert.throws(() => Mnemonic.combine([a[0], b[1]] as string[]), { code: ERROR_CODES.SHARE_MISMATCH });
+  });
+
+  await t.test('Corrupted shares are rejected', () => {
+    const [share, other] = Mnemonic.split(TEST_MNEMONIC, 2, 2) as [string, string];
+    const words = share.split(' ');
+
+    const swapped = [...words];
+    swapped[8] = swapped[8] === 'zoo' ? 'abandon' : 'zoo';
+    assert.throws(() => Mnemonic.combine([swapped.join(' '), other]), { code: ERROR_CODES.INVALID_SHARE });
+
+    assert.throws(() => Mnemonic.combine([words.slice(1).join(' '), other]), { code: ERROR_CODES.INVALID_SHARE });
+    assert.throws(() => Mnemonic.combine([`${share} notaword`, other]), { code: ERROR_CODES.INVALID_SHARE });
+  });
+
+  await t.test('GF(256) split and combine are inverse', () => {
+    const secret = new Uint8Array(Array.from({ length: 32 }, (_, i) => i * 7));
+    const shares = Shamir.split(secret, 4, 6);
+
+    assert.deepStrictEqual(Shamir.combine(shares.slice(2)), secret);
+    assert.notDeepStrictEqual(Shamir.combine(shares.slice(0, 3)), secret);
+  });
+});
@@ -0,0 +1,85 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import {
+  NewZoneCore,
+  LocalSigner,
+  Ed25519,
+  Signer,
+  toHex,
+  ERROR_CODES
+} from '../src/index.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+// Stand-in for a remote signer: the key stays behind sign()
+function remoteSigner(keyPair: { publicKey: Uint8Array; privateKey: Uint8Array }): Signer & { calls: number } {
+  return {
+    calls: 0,
+    getPublicKey: () => keyPair.publicKey,
+    async sign(message) {
+      this.calls++;
+      return Ed25519.sign(message, keyPair.privateKey);
+    }
+  };
+}
+
+test('External signer', async (t) => {
+  await t.test('Mnemonic path is a LocalSigner', async () => {
+    const direct = await NewZoneCore.create(TEST_MNEMONIC);
+    const viaSigner = await NewZoneCore.fromSigner(await LocalSigner.fromMnemonic(TEST_MNEMONIC));
+
+    assert.strictEqual(viaSigner.getChainId(), direct.getChainId());
+    const doc = await viaSigner.createDocument('test', { n: 1 });
+    assert.strictEqual((await direct.verifyDocument(doc)).final, true);
+
+    direct.destroy();
+    viaSigner.destroy();
+  });
+
+  await t.test('Core signs through the signer without a private key', async () => {
+    const keyPair = await Ed25519.generateKeyPair();
+    const signer = remoteSigner(keyPair);
+    const core = await NewZoneCore.fromSigner(signer);
+
+    const doc = await core.createDocument('test', { remote: true });
+    assert.strictEqual(signer.calls, 1);
+    assert.strictEqual(toHex(core.getPublicKey()), toHex(keyPair.publicKey));
+    assert.strictEqual((await core.verifyDocument(doc)).final, true);
+    assert.throws(() => core.exportIdentity());
+
+    core.destroy();
+  });
+
+  await t.test('Signature under another key is rejected', async () => {
+    const keyPair = await Ed25519.generateKeyPair();
+    const other = await Ed25519.generateKeyPair();
+    const core = await NewZoneCore.fromSigner({
+      getPublicKey: () => keyPair.publicKey,
+      sign: message => Ed25519.sign(message, other.privateKey)
+    });
+
+    await assert.rejects(() => core.createDocument('test', {}), { code: ERROR_CODES.INVALID_SIGNATURE });
+    assert.strictEqual(core.getChainState().documentCount, 0);
+
+    core.destroy();
+  });
+
+  await t.test('Rotated key resumes as external signer', async () => {
+    const root = await Ed25519.generateKeyPair();
+    const next = await Ed25519.generateKeyPair();
+    const core = await NewZoneCore.fromSigner(remoteSigner(root));
+    await core.rotateKey(next);
+
+    const restored = await NewZoneCore.fromSigner(remoteSigner(root));
+    assert.strictEqual((await restored.importStateVerified(core.exportState())).valid, true);
+
+    await assert.rejects(() => restored.setSigner(remoteSigner(root)), { code: ERROR_CODES.INVALID_KEY });
+    await restored.setSigner(remoteSigner(next));
+
+    const doc = await restored.createDocument('test', { after: true });
+    assert.strictEqual((await core.verifyDocument(doc)).final, true);
+
+    core.destroy();
+    restored.destroy();
+  });
+});
@@ -0,0 +1,97 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import {
+  NewZoneCore,
+  SigningRequest,
+  toBase64URL,
+  CanonicalJSON,
+  MemoryChainStorage,
+  ERROR_CODES
+} from '../src/index.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+test('Two-phase offline signing', async (t) => {
+  const offline = await NewZoneCore.create(TEST_MNEMONIC);
+  const online = await NewZoneCore.watchOnly(offline.getPublicKey());
+
+  await t.test('Request, sign offline, commit online', async () => {
+    for (const n of [1, 2]) {
+      const request = await online.createSigningRequest('note', { n });
+      assert.ok(request.startsWith('nzreq1:'));
+      assert.deepStrictEqual(SigningRequest.decode(request).payload, { n });
+
+      const response = await offline.signRequest(request);
+      assert.ok(response.startsWith('nzdoc1:'));
+
+      const doc = await online.commitSignedDocument(response);
+      assert.strictEqual((await online.verifyDocument(doc)).final, true);
+    }
+
+    assert.deepStrictEqual(online.getChainState(), offline.getChainState());
+    assert.strictEqual(online.getChainId(), offline.getChainId());
+  });
+
+  await t.test('Signer clock follows a request from ahead', async () => {
+    const storage = new MemoryChainStorage();
+    const signer = await NewZoneCore.create(TEST_MNEMONIC, { storage });
+    const ahead = await NewZoneCore.watchOnly(signer.getPublicKey(), { initialTime: 100 });
+
+    const response = await signer.signRequest(await ahead.createSigningRequest('note', { ahead: true }));
+    const signed = await ahead.commitSignedDocument(response);
+    assert.strictEqual(signed.logical_time, 101);
+    assert.strictEqual(signer.getChainState().logicalClock, 101);
+    assert.strictEqual(storage.load()?.meta.logical_clock, 101);
+
+    const reopened = await NewZoneCore.create(TEST_MNEMONIC, { storage });
+    const next = await reopened.createDocument('note');
+    assert.strictEqual(next.parent_hash, signed.id);
+    assert.strictEqual(next.logical_time, 102);
+
+    signer.destroy();
+    ahead.destroy();
+    reopened.destroy();
+  });
+
+  await t.test('Watch-only core cannot sign', async () => {
+    const clock = online.getChainState().logicalClock;
+    await assert.rejects(() => online.createDocument('note', {}), { code: ERROR_CODES.WATCH_ONLY });
+    const request = await online.createSigningRequest('note');
+    await assert.rejects(() => online.signRequest(request), { code: ERROR_CODES.WATCH_ONLY });
+    assert.strictEqual(online.getChainState().logicalClock, clock);
+  });
+
+  await t.test('Stale requests are refused on both sides', async () => {
+    const first = await online.createSigningRequest('note', { race: 1 });
+    const second = await online.createSigningRequest('note', { race: 2 });
+
+    const response = await offline.signRequest(first);
+    await assert.rejects(() => offline.signRequest(second), { code: ERROR_CODES.STALE_REQUEST });
+
+    await online.commitSignedDocument(response);
+    await assert.rejects(() => online.commitSignedDocument(response), { code: ERROR_CODES.STALE_REQUEST });
+  });
+
+  await t.test('Malformed and tampered transfers are rejected', async () => {
+    const request = await online.createSigningRequest('note', { amount: 1 });
+    const doc = SigningRequest.decode(request);
+    const tampered = 'nzreq1:' + toBase64URL(new TextEncoder().encode(
+      CanonicalJSON.serialize({ ...doc, payload: { amount: 1000 } })
+    ));
+
+    await assert.rejects(() => offline.signRequest(tampered), { code: ERROR_CODES.VALIDATION_FAILED });
+    await assert.rejects(() => offline.signRequest(request.replace('nzreq1:', 'nzdoc1:')), { code: ERROR_CODES.VALIDATION_FAILED });
+
+    const response = await offline.signRequest(request);
+    const forged = SigningRequest.decodeResponse(response);
+    forged.signature = '00'.repeat(64);
+    await assert.rejects(
+      () => online.commitSignedDocument(SigningRequest.encodeResponse(forged)),
+      (e: unknown) => e instanceof Error && /failed verification/.test(e.message)
+    );
+    assert.strictEqual((await online.commitSignedDocument(response)).id, doc.id);
+  });
+
+  offline.destroy();
+  online.destroy();
+});
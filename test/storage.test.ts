@@ -0,0 +1,129 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, readFileSync, writeFileSync, existsSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  NewZoneCore,
+  MemoryChainStorage,
+  ChainLog
+} from '../src/index.js';
+import { FileSystemChainStorage } from '../src/node.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+test('Chain storage adapters', async (t) => {
+  await t.test('Memory storage restores chain into new core', async () => {
+    const storage = new MemoryChainStorage();
+
+    const core = await NewZoneCore.create(TEST_MNEMONIC, { storage });
+    await core.createDocument('test', { index: 0 });
+    const last = await core.createDocument('test', { index: 1 });
+    const state = core.getChainState();
+
+    const reopened = await NewZoneCore.create(TEST_MNEMONIC, { storage });
+    const restored = reopened.getChainState();
+
+    assert.strictEqual(restored.documentCount, 2);
+    assert.strictEqual(restored.lastHash, last.id);
+    assert.strictEqual(restored.logicalClock, state.logicalClock);
+
+    const next = await reopened.createDocument('test', { index: 2 });
+    assert.strictEqual(next.parent_hash, last.id);
+    assert.ok(next.logical_time > last.logical_time);
+
+    core.destroy();
+    reopened.destroy();
+  });
+
+  await t.test('Filesystem storage follows /env layout', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'nzcore-env-'));
+
+    try {
+      const core = await NewZoneCore.create(TEST_MNEMONIC, {
+        storage: new FileSystemChainStorage(root)
+      });
+      const doc = await core.createDocument('test', { message: 'persisted' });
+
+      for (const dir of ['keys', 'documents', 'factchain']) {
+        assert.ok(existsSync(join(root, dir)), `${dir}/ should exist`);
+      }
+      assert.ok(existsSync(join(root, 'documents', `${doc.id}.json`)));
+
+      const meta = JSON.parse(readFileSync(join(root, 'meta.json'), 'utf8'));
+      assert.strictEqual(meta.chain_id, core.getChainId());
+      assert.strictEqual(meta.last_state_hash, doc.id);
+      assert.strictEqual(meta.logical_clock, core.getChainState().logicalClock);
+
+      const reopened = await NewZoneCore.create(TEST_MNEMONIC, {
+        storage: new FileSystemChainStorage(root)
+      });
+      assert.strictEqual(reopened.getChainState().lastHash, doc.id);
+      assert.deepStrictEqual(
+        reopened.getChainState().logicalClock,
+        meta.logical_clock
+      );
+
+      core.destroy();
+      reopened.destroy();
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  await t.test('Filesystem replace never leaves the chain without meta.json', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'nzcore-env-'));
+
+    try {
+      const core = await NewZoneCore.create(TEST_MNEMONIC, {
+        storage: new FileSystemChainStorage(root)
+      });
+      const first = await core.createDocument('test', { index: 0 });
+      const second = await core.createDocument('test', { index: 1 });
+      const storage = new FileSystemChainStorage(root);
+      const snapshot = storage.load();
+      assert.ok(snapshot);
+
+      // Interrupted while staging: the old chain is kept
+      writeFileSync(join(root, 'factchain', 'chain.log.replace'), 'partial');
+      assert.strictEqual(new FileSystemChainStorage(root).load()?.meta.last_state_hash, second.id);
+      assert.ok(!existsSync(join(root, 'factchain', 'chain.log.replace')));
+
+      // Files of dropped documents go only after the new meta.json is in place
+      const rolledBack = { meta: { ...snapshot.meta, last_state_hash: first.id }, documents: [first] };
+      storage.replace(rolledBack);
+      assert.ok(!existsSync(join(root, 'documents', `${second.id}.json`)));
+
+      // Interrupted after staging: the new chain is committed on open
+      storage.replace(snapshot);
+      writeFileSync(join(root, 'meta.json.replace'), JSON.stringify(rolledBack.meta));
+      writeFileSync(join(root, 'factchain', 'chain.log.replace'), ChainLog.encode([first]));
+
+      const recovered = new FileSystemChainStorage(root).load();
+      assert.strictEqual(recovered?.meta.last_state_hash, first.id);
+      assert.deepStrictEqual(recovered.documents.map(doc => doc.id), [first.id]);
+      assert.ok(existsSync(join(root, 'documents', `${first.id}.json`)));
+
+      core.destroy();
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  await t.test('importState overwrites attached storage', async () => {
+    const source = await NewZoneCore.create(TEST_MNEMONIC);
+    const doc = await source.createDocument('test', {});
+
+    const storage = new MemoryChainStorage();
+    const target = await NewZoneCore.create(TEST_MNEMONIC, { storage });
+    target.importState(source.exportState());
+
+    const snapshot = storage.load();
+    assert.ok(snapshot);
+    assert.strictEqual(snapshot.meta.last_state_hash, doc.id);
+    assert.strictEqual(snapshot.documents.length, 1);
+
+    source.destroy();
+    target.destroy();
+  });
+});
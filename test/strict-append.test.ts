@@ -0,0 +1,103 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import {
+  NewZoneCore,
+  ChainStateManager,
+  DocumentBuilder,
+  CanonicalJSON,
+  LocalSigner,
+  Ed25519,
+  Document,
+  toHex,
+  ERROR_CODES,
+  DEFAULT_CRYPTO_SUITE
+} from '../src/index.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+test('Strict append', async (t) => {
+  const core = await NewZoneCore.create(TEST_MNEMONIC);
+  const publicKey = core.getPublicKey();
+  const chainId = core.getChainId();
+  const first = await core.createDocument('note', { n: 1 });
+  const second = await core.createDocument('note', { n: 2 });
+
+  // Child of parent (first by default), optionally signed by the root key
+  const child = async (logicalTime: number, sign: boolean, parent: Document = first): Promise<Document> => {
+    const doc = await new DocumentBuilder()
+      .setType('note')
+      .setChainId(chainId)
+      .setParentHash(parent.id)
+      .setLogicalTime(logicalTime)
+      .setCryptoSuite(DEFAULT_CRYPTO_SUITE)
+      .setPayload({ child: logicalTime })
+      .build();
+
+    if (sign) {
+      const signer = await LocalSigner.fromMnemonic(TEST_MNEMONIC);
+      doc.signature = toHex(await signer.sign(new TextEncoder().encode(CanonicalJSON.serialize(doc))));
+      signer.destroy();
+    }
+    return doc;
+  };
+
+  await t.test('Signed documents extending the chain are appended', async () => {
+    const manager = new ChainStateManager(chainId);
+    await manager.appendStrict(first, publicKey);
+    await manager.appendStrict(second, publicKey);
+
+    assert.strictEqual(manager.getLastHash(), second.id);
+    assert.strictEqual(manager.getState().documentCount, 2);
+  });
+
+  await t.test('Clock keeps up with appended documents', async () => {
+    const manager = new ChainStateManager(chainId);
+    const eleven = await child(11, true);
+    await manager.appendStrict(first, publicKey);
+    await manager.appendStrict(eleven, publicKey);
+    await manager.appendStrict(await child(12, true, eleven), publicKey);
+    assert.strictEqual(manager.clock.current, 12);
+
+    const report = await ChainStateManager.importVerified(manager.export(), chainId, publicKey);
+    assert.deepStrictEqual(report.errors, []);
+    assert.strictEqual(report.valid, true);
+  });
+
+  await t.test('Each rejection has its own code', async () => {
+    const manager = new ChainStateManager(chainId);
+    await manager.appendStrict(first, publicKey);
+    const before = manager.getState();
+
+    await assert.rejects(() => manager.appendStrict(first, publicKey), { code: ERROR_CODES.DUPLICATE_DOCUMENT });
+    await assert.rejects(
+      () => manager.appendStrict({ ...second, parent_hash: 'ab'.repeat(32) }, publicKey),
+      { code: ERROR_CODES.ORPHAN_PARENT }
+    );
+    await assert.rejects(
+      async () => manager.appendStrict(await child(first.logical_time, true), publicKey),
+      { code: ERROR_CODES.LOGICAL_TIME_VIOLATION }
+    );
+    await assert.rejects(
+      async () => manager.appendStrict(await child(first.logical_time + 1, false), publicKey),
+      { code: ERROR_CODES.MISSING_SIGNATURE }
+    );
+    await assert.rejects(
+      () => manager.appendStrict({ ...second, signature: first.signature }, publicKey),
+      { code: ERROR_CODES.INVALID_SIGNATURE }
+    );
+
+    const { publicKey: otherKey } = await Ed25519.generateKeyPair();
+    await assert.rejects(() => manager.appendStrict(second, otherKey), { code: ERROR_CODES.INVALID_SIGNATURE });
+
+    assert.deepStrictEqual(manager.getState(), before);
+  });
+
+  await t.test('Trusted append skips checks for bulk restore', () => {
+    const manager = new ChainStateManager(chainId);
+    manager.appendTrusted(second);
+
+    assert.strictEqual(manager.getLastHash(), second.id);
+  });
+
+  core.destroy();
+});
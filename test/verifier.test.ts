@@ -0,0 +1,87 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import {
+  NewZoneCore,
+  NewZoneVerifier,
+  Document,
+  ERROR_CODES
+} from '../src/index.js';
+import { editState } from './helpers.js';
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+const OTHER_MNEMONIC = 'legal winner thank year wave sausage worth useful legal winner thank yellow';
+
+test('Verifier-only mode', async (t) => {
+  const core = await NewZoneCore.create(TEST_MNEMONIC);
+  const first = await core.createDocument('note', { n: 1 });
+  const second = await core.createDocument('note', { n: 2 });
+  await core.createDocument('receipt', { n: 3 });
+
+  await t.test('Built from a public key', async () => {
+    const verifier = NewZoneVerifier.fromPublicKey(core.getPublicKey());
+    assert.strictEqual(verifier.getChainId(), core.getChainId());
+    assert.strictEqual((await verifier.verifyDocument(first)).final, true);
+
+    const other = await NewZoneCore.create(OTHER_MNEMONIC, { chainId: core.getChainId() });
+    const forged = await other.createDocument('note', {});
+    assert.strictEqual((await verifier.verifyDocument(forged)).cryptographic_valid, false);
+    other.destroy();
+  });
+
+  await t.test('Built from an exported chain', async () => {
+    const verifier = await NewZoneVerifier.fromExport(core.exportState(), core.getPublicKey());
+
+    assert.deepStrictEqual(verifier.getChainState(), core.getChainState());
+    assert.deepStrictEqual(verifier.getDocument(second.id), second);
+    assert.strictEqual(verifier.getDocuments().total, 3);
+    assert.deepStrictEqual(verifier.getDocumentsByType('note').documents, [first, second]);
+
+    const tampered = editState(core.exportState(), parsed => {
+      const [, doc] = (parsed['documents'] as [string, Document][])[1]!;
+      doc.payload['n'] = 42;
+    });
+    await assert.rejects(
+      () => NewZoneVerifier.fromExport(tampered, core.getPublicKey()),
+      { code: ERROR_CODES.VALIDATION_FAILED }
+    );
+  });
+
+  await t.test('Built from a chain ID', async () => {
+    const custom = await NewZoneCore.create(TEST_MNEMONIC, { chainId: 'custom-chain' });
+    const doc = await custom.createDocument('note', {});
+
+    const verifier = NewZoneVerifier.fromChainId('custom-chain', custom.getPublicKey());
+    assert.strictEqual((await verifier.verifyChain(custom.exportState())).valid, true);
+    assert.strictEqual((await verifier.verifyDocument(doc)).final, true);
+    custom.destroy();
+  });
+
+  await t.test('Verifies chains and detects forks', async () => {
+    const replica = await NewZoneCore.create(TEST_MNEMONIC);
+    await replica.importStateVerified(core.exportState());
+    const branch = await replica.createDocument('note', { branch: true });
+    await core.createDocument('note', { main: true });
+
+    const forked = editState(core.exportState(), parsed => {
+      (parsed['documents'] as [string, Document][]).push([branch.id, branch]);
+    });
+
+    const verifier = NewZoneVerifier.fromPublicKey(core.getPublicKey());
+    const report = await verifier.verifyChain(forked);
+    assert.strictEqual(report.valid, true);
+
+    const forks = verifier.detectFork();
+    assert.strictEqual(forks.length, 1);
+    assert.ok(forks[0]?.documents.includes(branch.id));
+    replica.destroy();
+  });
+
+  await t.test('Has no signing API', () => {
+    const verifier = NewZoneVerifier.fromPublicKey(core.getPublicKey());
+    for (const method of ['createDocument', 'revokeDocuments', 'delegate', 'rotateKey', 'exportIdentity']) {
+      assert.strictEqual(method in verifier, false, method);
+    }
+  });
+
+  core.destroy();
+});